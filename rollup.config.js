@@ -2,15 +2,25 @@ import typescript from "rollup-plugin-typescript2";
 
 import pkg from "./package.json";
 
-export default {
-  input: "src/index.tsx",
+const library = {
+  // Each entry point is built separately, but they share the internals in a common chunk
+  // so that there is only ever one copy of the contexts used by react-injectable.
+  input: {
+    index: "src/index.tsx",
+    testing: "src/testing.tsx"
+  },
+  experimentalCodeSplitting: true,
   output: [
     {
-      file: pkg.main,
+      dir: "dist",
+      entryFileNames: "[name].js",
+      chunkFileNames: "[name]-[hash].js",
       format: "cjs"
     },
     {
-      file: pkg.module,
+      dir: "dist",
+      entryFileNames: "[name].es.js",
+      chunkFileNames: "[name]-[hash].es.js",
       format: "es"
     }
   ],
@@ -20,7 +30,43 @@ export default {
   ],
   plugins: [
     typescript({
-      typescript: require("typescript")
+      typescript: require("typescript"),
+      useTsconfigDeclarationDir: true
     })
   ]
 };
+
+// The codemod command is built on its own, since it runs in node rather than alongside React.
+const codemod = {
+  input: "src/codemod-cli.ts",
+  output: {
+    file: "dist/codemod-cli.js",
+    format: "cjs",
+    banner: "#!/usr/bin/env node"
+  },
+  external: ["typescript"],
+  plugins: [
+    typescript({
+      typescript: require("typescript"),
+      useTsconfigDeclarationDir: true
+    })
+  ]
+};
+
+// The Inject transformer is also built on its own, since it runs inside the TypeScript compiler.
+const transformer = {
+  input: "src/transformer.ts",
+  output: {
+    file: "dist/transformer.js",
+    format: "cjs"
+  },
+  external: ["typescript"],
+  plugins: [
+    typescript({
+      typescript: require("typescript"),
+      useTsconfigDeclarationDir: true
+    })
+  ]
+};
+
+export default [library, codemod, transformer];
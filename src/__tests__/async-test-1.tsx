@@ -0,0 +1,171 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectAsync } from '../index';
+
+// A minimal thenable that can be settled from the test, since the tests compile without a
+// Promise implementation in the standard library.
+class Deferred<T> implements PromiseLike<T> {
+  private callbacks: Array<[(value: T) => any, (error: any) => any]> = [];
+  private settled: [boolean, any] | null = null;
+
+  public then(onResolved?: (value: T) => any, onRejected?: (error: any) => any): any {
+    const callbacks: [(value: T) => any, (error: any) => any] = [
+      onResolved || (() => undefined),
+      onRejected || (() => undefined),
+    ];
+    if (this.settled === null) {
+      this.callbacks.push(callbacks);
+    } else {
+      this.settled[0] ? callbacks[0](this.settled[1]) : callbacks[1](this.settled[1]);
+    }
+    return this;
+  }
+
+  public resolve(value: T) {
+    this.settle(true, value);
+  }
+
+  public reject(error: any) {
+    this.settle(false, error);
+  }
+
+  private settle(resolved: boolean, result: any) {
+    this.settled = [resolved, result];
+    for (let i = 0; i < this.callbacks.length; i++) {
+      resolved ? this.callbacks[i][0](result) : this.callbacks[i][1](result);
+    }
+    this.callbacks = [];
+  }
+}
+
+const FooContext = React.createContext<string | PromiseLike<string>>("foo");
+const BarContext = React.createContext<number | PromiseLike<number>>(0);
+
+interface ComponentProps {
+  foo: string;
+  bar: number;
+  baz: string;
+}
+
+let renders = 0;
+
+const Component = InjectAsync(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.foo.toUpperCase()}
+          {this.props.bar + 1}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  foo: string | PromiseLike<string>;
+  bar: number | PromiseLike<number>;
+  baz: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <React.Suspense fallback="loading">
+        <FooContext.Provider value={this.props.foo}>
+          <BarContext.Provider value={this.props.bar}>
+            <Component baz={this.props.baz} />
+          </BarContext.Provider>
+        </FooContext.Provider>
+      </React.Suspense>
+    );
+  }
+}
+
+function waitForRetry(callback: () => void) {
+  setTimeout(callback, 10);
+}
+
+it('InjectAsync suspends until the promises resolve', (done) => {
+  const foo = new Deferred<string>();
+  const bar = new Deferred<number>();
+  bar.resolve(1);
+
+  const renderer = TestRenderer.create(<Document foo={foo} bar={bar} baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(0);
+
+  foo.resolve("foo1");
+  waitForRetry(() => {
+    expect(renderer.toJSON()).toMatchSnapshot();
+    expect(renders).toEqual(1);
+
+    // Re-rendering with the same promises does not suspend again.
+    renderer.update(<Document foo={foo} bar={bar} baz="baz2" />);
+
+    expect(renderer.toJSON()).toMatchSnapshot();
+    expect(renders).toEqual(2);
+
+    // Plain values are injected without suspending.
+    renderer.update(<Document foo="foo2" bar={2} baz="baz2" />);
+
+    expect(renderer.toJSON()).toMatchSnapshot();
+    expect(renders).toEqual(3);
+    done();
+  });
+});
+
+class ErrorBoundary extends React.Component<{}, { error: Error | null }> {
+  public state = { error: null as Error | null };
+
+  public static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  public render() {
+    if (this.state.error !== null) {
+      return this.state.error.message;
+    }
+    return this.props.children;
+  }
+}
+
+it('InjectAsync throws rejections to the nearest error boundary', (done) => {
+  const foo = new Deferred<string>();
+  const consoleError = console.error;
+  console.error = () => {};
+
+  const renderer = TestRenderer.create(
+    <ErrorBoundary>
+      <Document foo={foo} bar={1} baz="baz" />
+    </ErrorBoundary>
+  );
+
+  expect(renderer.toJSON()).toEqual("loading");
+
+  foo.reject(new Error("failed to load foo"));
+  waitForRetry(() => {
+    console.error = consoleError;
+    expect(renderer.toJSON()).toEqual("failed to load foo");
+    done();
+  });
+});
+
+it('InjectAsync does not modify the promises', () => {
+  const foo = new Deferred<string>();
+  foo.resolve("foo3");
+  const keys = Object.keys(foo);
+  Object.freeze(foo);
+
+  const renderer = TestRenderer.create(<Document foo={foo} bar={3} baz="baz3" />);
+
+  expect(renderer.toJSON()).toEqual(["FOO3", "4", "baz3"]);
+  expect(Object.keys(foo)).toEqual(keys);
+});
@@ -0,0 +1,107 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectionAudit, InjectionScope, MissingProviderReport } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+FooContext.displayName = "FooContext";
+const BarContext = React.createContext<string>("bar");
+BarContext.displayName = "BarContext";
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return <>{this.props.foo}{this.props.bar}</>;
+  }
+}
+
+const Component = Inject({ foo: FooContext, bar: BarContext }, ComponentTest);
+
+it('InjectionAudit reports contexts without a provider', () => {
+  let reports: MissingProviderReport[] = [];
+  const renderer = TestRenderer.create(
+    <InjectionAudit onReport={(missing) => reports = missing}>
+      <FooContext.Provider value="foo1">
+        <div>
+          <Component />
+        </div>
+      </FooContext.Provider>
+    </InjectionAudit>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(reports).toEqual([{
+    componentName: "Inject(ComponentTest)",
+    propName: "bar",
+    contextDisplayName: "BarContext",
+    message: 'Inject(ComponentTest) could not inject "bar", because there is no BarContext.Provider above it.',
+  }]);
+});
+
+it('InjectionAudit does not report when every context has a provider', () => {
+  const onReport = jest.fn();
+  TestRenderer.create(
+    <BarContext.Provider value="bar1">
+      <InjectionAudit onReport={onReport}>
+        <FooContext.Provider value="foo1">
+          <Component />
+        </FooContext.Provider>
+      </InjectionAudit>
+    </BarContext.Provider>
+  );
+
+  expect(onReport).not.toHaveBeenCalled();
+});
+
+it('InjectionAudit reports contexts that only have a consumer above the component', () => {
+  let reports: MissingProviderReport[] = [];
+  TestRenderer.create(
+    <InjectionAudit onReport={(missing) => reports = missing}>
+      <BarContext.Provider value="bar1">
+        <FooContext.Consumer>
+          {() => <Component />}
+        </FooContext.Consumer>
+      </BarContext.Provider>
+    </InjectionAudit>
+  );
+
+  expect(reports.map((report) => report.propName)).toEqual(["foo"]);
+});
+
+it('InjectionAudit logs missing providers by default', () => {
+  const consoleError = console.error;
+  const errors: string[] = [];
+  console.error = (message: string) => errors.push(message);
+  try {
+    TestRenderer.create(
+      <InjectionAudit>
+        <Component />
+      </InjectionAudit>
+    );
+  } finally {
+    console.error = consoleError;
+  }
+
+  expect(errors).toEqual([
+    'Inject(ComponentTest) could not inject "foo", because there is no FooContext.Provider above it.',
+    'Inject(ComponentTest) could not inject "bar", because there is no BarContext.Provider above it.',
+  ]);
+});
+
+it('InjectionAudit does not report overridden values', () => {
+  const onReport = jest.fn();
+  TestRenderer.create(
+    <InjectionAudit onReport={onReport}>
+      <InjectionScope overrides={[[FooContext, "foo2"]]}>
+        <InjectionScope overrides={[[Component, { bar: "bar2" }]]}>
+          <Component />
+        </InjectionScope>
+      </InjectionScope>
+    </InjectionAudit>
+  );
+
+  expect(onReport).not.toHaveBeenCalled();
+});
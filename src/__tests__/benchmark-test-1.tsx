@@ -0,0 +1,159 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject } from '../index';
+
+const Context1 = React.createContext<string>("1");
+const Context2 = React.createContext<string>("2");
+const Context3 = React.createContext<string>("3");
+const Context4 = React.createContext<string>("4");
+const Context5 = React.createContext<string>("5");
+const Context6 = React.createContext<string>("6");
+
+interface ComponentProps {
+  p1: string;
+  p2: string;
+  p3: string;
+  p4: string;
+  p5: string;
+  p6: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.p1}
+        {this.props.p2}
+        {this.props.p3}
+        {this.props.p4}
+        {this.props.p5}
+        {this.props.p6}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+// The previous implementation of Inject, which wrapped the component in a forwardRef and
+// a context consumer for every injected property. This is kept here as a baseline.
+function NestedInjectSingle(Context: React.Context<any>, PropName: string, Component: React.ComponentType<any>): React.ComponentType<any> {
+  return React.forwardRef<any, any>((props: any, ref?: React.Ref<any>) => {
+    return (
+      <Context.Consumer>
+        {(value: any) => {
+          const injectedProps = { ...props, [PropName]: value };
+          return (
+            <Component ref={ref} {...injectedProps} />
+          );
+        }}
+      </Context.Consumer>
+    );
+  }) as React.ComponentType<any>;
+}
+
+const contextMap: { [propName: string]: React.Context<string> } = {
+  p1: Context1,
+  p2: Context2,
+  p3: Context3,
+  p4: Context4,
+  p5: Context5,
+  p6: Context6,
+};
+
+let Nested: React.ComponentType<any> = ComponentTest;
+for (let propName in contextMap) {
+  Nested = NestedInjectSingle(contextMap[propName], propName, Nested);
+}
+
+const Collapsed = Inject(
+  {
+    p1: Context1,
+    p2: Context2,
+    p3: Context3,
+    p4: Context4,
+    p5: Context5,
+    p6: Context6,
+  },
+  ComponentTest
+);
+
+const instanceCount = 200;
+const updateCount = 20;
+
+interface DocumentProps {
+  component: React.ComponentType<{ baz: string }>;
+  value: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    const Component = this.props.component;
+    const children: React.ReactNode[] = [];
+    for (let i = 0; i < instanceCount; i++) {
+      children.push(<Component key={i} baz="baz" />);
+    }
+    return (
+      <Context1.Provider value={this.props.value}>
+        <Context2.Provider value={this.props.value}>
+          <Context3.Provider value={this.props.value}>
+            <Context4.Provider value={this.props.value}>
+              <Context5.Provider value={this.props.value}>
+                <Context6.Provider value={this.props.value}>
+                  {children}
+                </Context6.Provider>
+              </Context5.Provider>
+            </Context4.Provider>
+          </Context3.Provider>
+        </Context2.Provider>
+      </Context1.Provider>
+    );
+  }
+}
+
+function measure(component: React.ComponentType<any>) {
+  const mountStart = Date.now();
+  const renderer = TestRenderer.create(<Document component={component} value="a" />);
+  const mount = Date.now() - mountStart;
+
+  const updateStart = Date.now();
+  for (let i = 0; i < updateCount; i++) {
+    renderer.update(<Document component={component} value={i % 2 === 0 ? "b" : "a"} />);
+  }
+  const update = Date.now() - updateStart;
+
+  // Count every component instance in the tree, including the wrappers.
+  const instances = renderer.root.findAll(() => true, { deep: true }).length;
+
+  renderer.unmount();
+  return { mount, update, instances };
+}
+
+it('Inject adds a single wrapper regardless of how many contexts are injected', () => {
+  const renderer = TestRenderer.create(
+    <Document component={Collapsed} value="a" />
+  );
+  const wrappers = renderer.root.findAll((instance) => (instance.type as any) === Collapsed);
+  const targets = renderer.root.findAllByType(ComponentTest);
+
+  expect(wrappers.length).toEqual(instanceCount);
+  expect(targets.length).toEqual(instanceCount);
+  expect(targets[0].parent!.type as any).toEqual(Collapsed);
+  expect(targets[0].props.p6).toEqual("a");
+});
+
+it('Inject mounts and updates with fewer components than nested injection', () => {
+  const nested = measure(Nested);
+  const collapsed = measure(Collapsed);
+
+  // The timings vary between machines, so they are only printed when asked for.
+  if (process.env.REACT_INJECTABLE_BENCHMARK) {
+    console.log(
+      `Benchmark for ${instanceCount} components with 6 injected properties, ${updateCount} updates:\n` +
+      `  nested:    ${nested.mount}ms mount, ${nested.update}ms update, ${nested.instances} instances\n` +
+      `  collapsed: ${collapsed.mount}ms mount, ${collapsed.update}ms update, ${collapsed.instances} instances`
+    );
+  }
+
+  expect(collapsed.instances).toBeLessThan(nested.instances);
+});
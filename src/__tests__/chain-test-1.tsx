@@ -0,0 +1,161 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectGuarded, InjectionScope, getInjectionMetadata, useInjected } from '../index';
+
+interface Theme {
+  color: string;
+}
+
+const WidgetTheme = React.createContext<Theme | undefined>(undefined);
+const PageTheme = React.createContext<Theme | undefined>(undefined);
+const AppTheme = React.createContext<Theme>({ color: "app" });
+const Size = React.createContext<"small" | undefined>(undefined);
+const DefaultSize = React.createContext<"large">("large");
+
+interface ComponentProps {
+  theme: Theme;
+  size: "small" | "large";
+  label: string;
+}
+
+const Component = Inject(
+  {
+    theme: [WidgetTheme, PageTheme, AppTheme],
+    size: [Size, DefaultSize],
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.theme.color}
+          {this.props.size}
+          {this.props.label}
+        </>
+      );
+    }
+  }
+);
+
+it('Inject injects the first value in the chain that is not undefined', () => {
+  const renderer = TestRenderer.create(<Component label="label1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <PageTheme.Provider value={{ color: "page" }}>
+      <Size.Provider value="small">
+        <Component label="label1" />
+      </Size.Provider>
+    </PageTheme.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <PageTheme.Provider value={{ color: "page" }}>
+      <WidgetTheme.Provider value={{ color: "widget" }}>
+        <Component label="label1" />
+      </WidgetTheme.Provider>
+    </PageTheme.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <PageTheme.Provider value={{ color: "page" }}>
+      <WidgetTheme.Provider value={undefined}>
+        <Component label="label1" />
+      </WidgetTheme.Provider>
+    </PageTheme.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Inject applies context overrides to each context in the chain', () => {
+  const renderer = TestRenderer.create(
+    <WidgetTheme.Provider value={{ color: "widget" }}>
+      <InjectionScope overrides={[[WidgetTheme, undefined], [PageTheme, { color: "preview" }]]}>
+        <Component label="label1" />
+      </InjectionScope>
+    </WidgetTheme.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+const GuardedComponent = InjectGuarded(
+  {
+    theme: [WidgetTheme, PageTheme],
+  },
+  class GuardedComponent extends React.Component<{ theme: Theme }, {}> {
+    public render() {
+      return this.props.theme.color;
+    }
+  },
+  {
+    fallback: <>no theme</>,
+  }
+);
+
+it('InjectGuarded only treats a chain as missing when every context is undefined', () => {
+  const renderer = TestRenderer.create(<GuardedComponent />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <PageTheme.Provider value={{ color: "page" }}>
+      <GuardedComponent />
+    </PageTheme.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('useInjected infers the union of the value types in the chain', () => {
+  let size: "small" | "large" | undefined;
+  const HookComponent = (): null => {
+    size = useInjected({ size: [Size, DefaultSize] }).size;
+    return null;
+  };
+  TestRenderer.create(
+    <Size.Provider value="small">
+      <HookComponent />
+    </Size.Provider>
+  );
+
+  expect(size).toBe("small");
+});
+
+it('Chains are described in the injection metadata', () => {
+  expect(getInjectionMetadata(Component).props[0]).toEqual({
+    propName: "theme",
+    context: WidgetTheme,
+    contextDisplayName: undefined,
+    fallbackContexts: [PageTheme, AppTheme],
+    guarded: false,
+  });
+});
+
+it('Strict injection only requires a provider for one of the contexts in a chain', () => {
+  const StrictComponent = Inject(
+    {
+      theme: [WidgetTheme, PageTheme],
+    },
+    class StrictComponent extends React.Component<{ theme: Theme }, {}> {
+      public render() {
+        return this.props.theme.color;
+      }
+    },
+    {
+      strict: true,
+    }
+  );
+  const renderer = TestRenderer.create(
+    <PageTheme.Provider value={{ color: "page" }}>
+      <StrictComponent />
+    </PageTheme.Provider>
+  );
+
+  expect(renderer.toJSON()).toBe("page");
+});
@@ -0,0 +1,174 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { formatDiff, runCodemod } from '../codemod';
+
+// The fixtures are compiled next to this file, so that the React types resolve from node_modules.
+const fixtureName = path.join(__dirname, "codemod-fixture.tsx");
+
+// The other modules that the fixtures can import, keyed by their paths relative to this file.
+function transform(source: string, modules: { [name: string]: string } = {}) {
+  const options: ts.CompilerOptions = {
+    jsx: ts.JsxEmit.React,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    esModuleInterop: true,
+    noEmit: true,
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  const fileExists = host.fileExists;
+  const sources: { [fileName: string]: string } = { [fixtureName]: source };
+  for (let name in modules) {
+    sources[path.join(__dirname, name)] = modules[name];
+  }
+  host.fileExists = (fileName) => Object.prototype.hasOwnProperty.call(sources, fileName) || fileExists.call(host, fileName);
+  host.getSourceFile = (fileName, languageVersion, onError) => Object.prototype.hasOwnProperty.call(sources, fileName) ?
+    ts.createSourceFile(fileName, sources[fileName], languageVersion, true) :
+    getSourceFile.call(host, fileName, languageVersion, onError);
+  const program = ts.createProgram([fixtureName], options, host);
+  return runCodemod(program, [fixtureName])[0];
+}
+
+const contexts = `
+import * as React from "react";
+
+interface Theme {
+  color: string;
+}
+
+const ThemeContext = React.createContext<Theme>({ color: "red" });
+const UserContext = React.createContext<string>("anonymous");
+`;
+
+it('Codemod rewrites class components wrapped in consumers', () => {
+  const result = transform(contexts + `
+interface ExampleProps {
+  title: string;
+}
+
+export class Example extends React.Component<ExampleProps, {}> {
+  public render() {
+    return (
+      <ThemeContext.Consumer>
+        {(theme) => (
+          <UserContext.Consumer>
+            {(user) => (
+              <div style={{ color: theme.color }}>
+                {this.props.title} {user}
+              </div>
+            )}
+          </UserContext.Consumer>
+        )}
+      </ThemeContext.Consumer>
+    );
+  }
+}
+`);
+
+  expect(result.transformed).toEqual(["Example"]);
+  expect(result.reports).toEqual([]);
+  expect(result.output).toMatchSnapshot();
+});
+
+it('Codemod rewrites function components wrapped in consumers', () => {
+  const result = transform(contexts + `
+export function Greeting(props: { name: string }) {
+  return <UserContext.Consumer>{(user) => {
+    const greeting = "Hello " + props.name;
+    return <p>{greeting}, {user}</p>;
+  }}</UserContext.Consumer>;
+}
+
+type BadgeProps = {
+  label: string,
+};
+
+export const Badge = ({ label }: BadgeProps) => (
+  <ThemeContext.Consumer>
+    {(theme) => <span style={{ color: theme.color }}>{label}</span>}
+  </ThemeContext.Consumer>
+);
+`);
+
+  expect(result.transformed).toEqual(["Greeting", "Badge"]);
+  expect(result.reports).toEqual([]);
+  expect(result.output).toMatchSnapshot();
+  expect(formatDiff("codemod-fixture.tsx", result.original, result.output)).toMatchSnapshot();
+});
+
+it('Codemod reports components that it can not transform safely', () => {
+  const result = transform(contexts + `
+interface SharedProps {
+  title: string;
+}
+
+export class First extends React.Component<SharedProps, {}> {
+  public render() {
+    return <UserContext.Consumer>{(user) => user}</UserContext.Consumer>;
+  }
+}
+
+export function Second(props: SharedProps) {
+  return (
+    <div>
+      <UserContext.Consumer>{(user) => user}</UserContext.Consumer>
+    </div>
+  );
+}
+
+const UntypedContext: any = React.createContext(undefined);
+
+export function Third(props: {}) {
+  return <UntypedContext.Consumer>{(value) => value}</UntypedContext.Consumer>;
+}
+`);
+
+  expect(result.transformed).toEqual([]);
+  expect(result.output).toEqual(result.original);
+  expect(result.reports.map((report) =>
+    `${report.line}:${report.column} ${report.message.replace(fixtureName, "codemod-fixture.tsx")}`)).toMatchSnapshot();
+});
+
+const themeModule = {
+  "codemod-theme.tsx": `
+import * as React from "react";
+
+export interface Theme {
+  color: string;
+}
+
+export const ThemeContext = React.createContext<Theme>({ color: "red" });
+`,
+};
+
+it('Codemod uses value types that are imported into the file', () => {
+  const result = transform(`
+import * as React from "react";
+import { Theme, ThemeContext } from "./codemod-theme";
+
+export function Swatch(props: { size: number }) {
+  return <ThemeContext.Consumer>{(theme) => <div style={{ color: theme.color }} />}</ThemeContext.Consumer>;
+}
+`, themeModule);
+
+  expect(result.transformed).toEqual(["Swatch"]);
+  expect(result.output).toContain("theme: Theme }");
+});
+
+it('Codemod reports value types that are not in scope in the file', () => {
+  const result = transform(`
+import * as React from "react";
+import { ThemeContext } from "./codemod-theme";
+
+export function Swatch(props: { size: number }) {
+  return <ThemeContext.Consumer>{(theme) => <div style={{ color: theme.color }} />}</ThemeContext.Consumer>;
+}
+`, themeModule);
+
+  expect(result.transformed).toEqual([]);
+  expect(result.output).toEqual(result.original);
+  expect(result.reports.map((report) => `${report.line}:${report.column} ${report.message}`)).toMatchSnapshot();
+});
+
+it('Codemod formats an empty diff when nothing changed', () => {
+  expect(formatDiff("codemod-fixture.tsx", "same", "same")).toEqual("");
+});
@@ -0,0 +1,109 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { createContainer, createToken, ContainerProvider, InjectServices } from '../index';
+
+let nextId = 1;
+
+class Logger {
+  public id = nextId++;
+}
+
+class Api {
+  public id = nextId++;
+
+  constructor(public logger: Logger) {
+  }
+}
+
+class Request {
+  public id = nextId++;
+
+  constructor(public api: Api) {
+  }
+}
+
+const LoggerToken = createToken<Logger>("Logger");
+const ApiToken = createToken<Api>("Api");
+const RequestToken = createToken<Request>("Request");
+
+const container = createContainer()
+  .register(LoggerToken, {
+    lifetime: "singleton",
+    factory: () => new Logger(),
+  })
+  .register(ApiToken, {
+    lifetime: "scoped",
+    dependencies: { logger: LoggerToken },
+    factory: ({ logger }) => new Api(logger),
+  })
+  .register(RequestToken, {
+    lifetime: "transient",
+    dependencies: { api: ApiToken },
+    factory: ({ api }) => new Request(api),
+  });
+
+interface ComponentProps {
+  logger: Logger;
+  api: Api;
+  request: Request;
+  baz: string;
+}
+
+const Component = InjectServices(
+  {
+    logger: LoggerToken,
+    api: ApiToken,
+    request: RequestToken,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {`logger:${this.props.logger.id}`}
+          {`api:${this.props.api.id}`}
+          {`request:${this.props.request.id}`}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  baz: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <>
+        <ContainerProvider container={container}>
+          <Component baz={this.props.baz} />
+          <Component baz={this.props.baz} />
+        </ContainerProvider>
+        <ContainerProvider container={container}>
+          <Component baz={this.props.baz} />
+        </ContainerProvider>
+      </>
+    );
+  }
+}
+
+it('InjectServices resolves services with the correct lifetimes', () => {
+  const renderer = TestRenderer.create(<Document baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document baz="baz2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('services can be resolved outside of React', () => {
+  const api = container.resolve(ApiToken);
+
+  expect(api).toBeInstanceOf(Api);
+  expect(container.resolve(ApiToken)).toBe(api);
+  expect(api.logger).toBe(container.resolve(LoggerToken));
+  expect(container.resolve(RequestToken)).not.toBe(container.resolve(RequestToken));
+});
@@ -0,0 +1,132 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { createContainer, createToken, ContainerProvider, InjectServices, InjectionScope } from '../index';
+
+const AToken = createToken<string>("A");
+const BToken = createToken<string>("B");
+const CToken = createToken<string>("C");
+const DToken = createToken<string>("D");
+const SessionToken = createToken<string>("Session");
+const CacheToken = createToken<string>("Cache");
+const StoreToken = createToken<string>("Store");
+
+const container = createContainer()
+  .register(AToken, {
+    lifetime: "transient",
+    dependencies: { b: BToken },
+    factory: ({ b }) => "a" + b,
+  })
+  .register(BToken, {
+    lifetime: "transient",
+    dependencies: { c: CToken },
+    factory: ({ c }) => "b" + c,
+  })
+  .register(CToken, {
+    lifetime: "transient",
+    dependencies: { a: AToken },
+    factory: ({ a }) => "c" + a,
+  })
+  .register(DToken, {
+    lifetime: "singleton",
+    dependencies: { missing: createToken<string>("Missing") },
+    factory: ({ missing }) => "d" + missing,
+  })
+  .register(SessionToken, {
+    lifetime: "scoped",
+    factory: () => "session",
+  })
+  .register(CacheToken, {
+    lifetime: "transient",
+    dependencies: { session: SessionToken },
+    factory: ({ session }) => "cache" + session,
+  })
+  .register(StoreToken, {
+    lifetime: "singleton",
+    dependencies: { cache: CacheToken },
+    factory: ({ cache }) => "store" + cache,
+  });
+
+const Component = InjectServices(
+  {
+    d: DToken,
+  },
+  function Component(props: { d: string }) {
+    return <>{props.d}</>;
+  }
+);
+
+it('cyclic dependencies report the token chain', () => {
+  expect(() => container.resolve(AToken)).toThrow(
+    'Cyclic dependency between services: "A" -> "B" -> "C" -> "A".'
+  );
+});
+
+it('unregistered tokens report the token chain', () => {
+  expect(() => container.resolve(DToken)).toThrow(
+    'No service is registered for token "Missing" (resolving "D" -> "Missing").'
+  );
+});
+
+it('singletons can not depend on scoped services', () => {
+  expect(() => container.resolve(StoreToken)).toThrow(
+    'The singleton service "Store" can not depend on the scoped service "Session" (resolving "Store" -> "Cache" -> "Session").'
+  );
+  expect(container.resolve(CacheToken)).toBe("cachesession");
+});
+
+it('InjectServices requires a ContainerProvider', () => {
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    expect(() => TestRenderer.create(<Component />)).toThrow(
+      'InjectServices(Component) must be rendered inside a <ContainerProvider>.'
+    );
+    expect(() => TestRenderer.create(
+      <ContainerProvider container={container}>
+        <Component />
+      </ContainerProvider>
+    )).toThrow('No service is registered for token "Missing"');
+  } finally {
+    console.error = consoleError;
+  }
+});
+
+it('InjectServices applies overrides that change after the first render', () => {
+  const SessionComponent = InjectServices(
+    {
+      session: SessionToken,
+    },
+    function SessionComponent(props: { session: string }) {
+      return <>{props.session}</>;
+    }
+  );
+  const renderer = TestRenderer.create(
+    <ContainerProvider container={container}>
+      <InjectionScope overrides={[]}>
+        <SessionComponent />
+      </InjectionScope>
+    </ContainerProvider>
+  );
+
+  expect(renderer.toJSON()).toBe("session");
+
+  renderer.update(
+    <ContainerProvider container={container}>
+      <InjectionScope overrides={[[SessionComponent, { session: "session2" }]]}>
+        <SessionComponent />
+      </InjectionScope>
+    </ContainerProvider>
+  );
+
+  expect(renderer.toJSON()).toBe("session2");
+
+  renderer.update(
+    <ContainerProvider container={container}>
+      <InjectionScope overrides={[]}>
+        <SessionComponent />
+      </InjectionScope>
+    </ContainerProvider>
+  );
+
+  expect(renderer.toJSON()).toBe("session");
+});
@@ -0,0 +1,75 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Injectable, InjectableComponent } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+const ComponentContexts = {
+  foo: FooContext,
+  bar: BarContext,
+};
+
+@Injectable(ComponentContexts)
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public static someStatic = "staticValue";
+
+  public someInternalProperty = "testValue";
+
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = ComponentTest as any as InjectableComponent<typeof ComponentTest, typeof ComponentContexts>;
+
+interface DocumentProps {
+  foo: string;
+  bar: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public ref = React.createRef<ComponentTest>();
+
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <BarContext.Provider value={this.props.bar}>
+          <Component ref={this.ref} baz="baz" />
+        </BarContext.Provider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+it('Injectable decorator injects correctly', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo2" bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Injectable decorator forwards refs and hoists statics', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" />);
+  const testInstance = renderer.getInstance() as any as Document;
+
+  expect(testInstance.ref.current).not.toBeNull();
+  expect(testInstance.ref.current.someInternalProperty).toEqual("testValue");
+  expect(Component.someStatic).toEqual("staticValue");
+  expect(Component.displayName).toEqual("Injectable(ComponentTest)");
+});
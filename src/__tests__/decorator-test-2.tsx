@@ -0,0 +1,28 @@
+import * as React from 'react';
+import { Injectable } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+
+interface ComponentProps {
+  foo: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+it('Injectable decorator rejects TC39 decorators, which can not forward refs', () => {
+  // This version of TypeScript can't compile TC39 decorators, so we call the decorator in the
+  // same way that they do.
+  expect(() => Injectable({ foo: FooContext })(ComponentTest, { kind: "class" })).toThrow(
+    "Injectable(ComponentTest) can't be used as a TC39 decorator, because it couldn't forward refs to the instance."
+  );
+});
@@ -0,0 +1,103 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject } from '../index';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const UserContext = React.createContext<User>({ id: "1", name: "foo" });
+const RolesContext = React.createContext<string[]>([]);
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  user: User;
+  roles: string[];
+  bar: string;
+  baz: string;
+}
+
+let renders = 0;
+
+const Component = Inject(
+  {
+    user: UserContext,
+    roles: RolesContext,
+    bar: BarContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.user.name}
+          {this.props.roles.join(",")}
+          {this.props.bar}
+          {this.props.baz}
+        </>
+      );
+    }
+  },
+  {
+    isEqual: {
+      user: "shallow",
+      roles: (previous: string[], next: string[]) => previous.join(",") === next.join(","),
+    },
+  }
+);
+
+interface DocumentProps {
+  name: string;
+  roles: string[];
+  bar: string;
+  baz: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <UserContext.Provider value={{ id: "1", name: this.props.name }}>
+        <RolesContext.Provider value={this.props.roles}>
+          <BarContext.Provider value={this.props.bar}>
+            <Component baz={this.props.baz} />
+          </BarContext.Provider>
+        </RolesContext.Provider>
+      </UserContext.Provider>
+    );
+  }
+}
+
+it('Inject only re-renders when an injected value or outer property changes', () => {
+  const renderer = TestRenderer.create(<Document name="foo1" roles={["a"]} bar="bar1" baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  // New but structurally identical values.
+  renderer.update(<Document name="foo1" roles={["a"]} bar="bar1" baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document name="foo2" roles={["a"]} bar="bar1" baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+
+  renderer.update(<Document name="foo2" roles={["a", "b"]} bar="bar1" baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(3);
+
+  // Properties without an equality option use Object.is.
+  renderer.update(<Document name="foo2" roles={["a", "b"]} bar="bar2" baz="baz1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(4);
+
+  renderer.update(<Document name="foo2" roles={["a", "b"]} bar="bar2" baz="baz2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(5);
+});
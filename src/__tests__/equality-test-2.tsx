@@ -0,0 +1,75 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectGuarded } from '../index';
+
+interface Session {
+  user: string;
+}
+
+const SessionContext = React.createContext<Session | undefined>(undefined);
+
+interface ComponentProps {
+  session: Session;
+  baz: string;
+}
+
+let renders = 0;
+
+const Component = InjectGuarded(
+  {
+    session: SessionContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.session.user}
+          {this.props.baz}
+        </>
+      );
+    }
+  },
+  {
+    fallback: <>loading</>,
+    isEqual: {
+      session: "shallow",
+    },
+  }
+);
+
+interface DocumentProps {
+  user?: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <SessionContext.Provider value={this.props.user === undefined ? undefined : { user: this.props.user }}>
+        <Component baz="baz" />
+      </SessionContext.Provider>
+    );
+  }
+}
+
+it('InjectGuarded only re-renders when an injected value or outer property changes', () => {
+  const renderer = TestRenderer.create(<Document />);
+
+  expect(renderer.toJSON()).toEqual("loading");
+  expect(renders).toEqual(0);
+
+  renderer.update(<Document user="user1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document user="user1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document user="user2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+});
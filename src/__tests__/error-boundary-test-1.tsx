@@ -0,0 +1,113 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectErrorFallbackProps, InjectErrorInfo } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+
+interface ComponentProps {
+  foo: string;
+  baz: string;
+}
+
+let reset: () => void = () => {};
+let shouldThrow = true;
+const errors: Array<[any, InjectErrorInfo<{ foo: string }>]> = [];
+
+const ErrorFallback = (props: InjectErrorFallbackProps<{ baz: string }, { foo: string }>) => {
+  reset = props.reset;
+  return (
+    <>
+      {props.error.message}
+      {props.injectedValues.foo}
+      {props.baz}
+    </>
+  );
+};
+
+const Component = Inject(
+  {
+    foo: FooContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      if (this.props.foo === "bad" || shouldThrow) {
+        throw new Error("failed to render " + this.props.foo);
+      }
+      return (
+        <>
+          {this.props.foo}
+          {this.props.baz}
+        </>
+      );
+    }
+  },
+  {
+    errorFallback: ErrorFallback,
+    onError: (error, info) => {
+      errors.push([error, info]);
+    },
+  }
+);
+
+interface DocumentProps {
+  foo: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <Component baz="baz" />
+      </FooContext.Provider>
+    );
+  }
+}
+
+const consoleError = console.error;
+
+beforeEach(() => {
+  // React logs every error caught by an error boundary.
+  console.error = () => {};
+});
+
+afterEach(() => {
+  console.error = consoleError;
+});
+
+it('Inject renders the error fallback and reports the error', () => {
+  const renderer = TestRenderer.create(<Document foo="bad" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(errors.length).toEqual(1);
+  expect(errors[0][0].message).toEqual("failed to render bad");
+  expect(errors[0][1].componentName).toEqual("Inject(Component)");
+  expect(errors[0][1].injectedValues).toEqual({ foo: "bad" });
+
+  // Re-rendering with the same values does not retry.
+  renderer.update(<Document foo="bad" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(errors.length).toEqual(1);
+
+  // Changing the values retries.
+  shouldThrow = false;
+  renderer.update(<Document foo="foo1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(errors.length).toEqual(1);
+});
+
+it('Inject retries rendering when the error fallback calls reset', () => {
+  errors.length = 0;
+  shouldThrow = true;
+  const renderer = TestRenderer.create(<Document foo="foo1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(errors.length).toEqual(1);
+
+  shouldThrow = false;
+  reset();
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(errors.length).toEqual(1);
+});
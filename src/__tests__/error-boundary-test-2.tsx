@@ -0,0 +1,62 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectGuarded } from '../index';
+
+const FooContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  foo: string;
+  baz: string;
+}
+
+const errors: string[] = [];
+
+const Component = InjectGuarded(
+  {
+    foo: FooContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render(): React.ReactNode {
+      throw new Error("failed to render " + this.props.foo);
+    }
+  },
+  {
+    onError: (error, info) => {
+      errors.push(info.componentName + ": " + error.message);
+    },
+  }
+);
+
+class OuterBoundary extends React.Component<{}, { error: Error | null }> {
+  public state = { error: null as Error | null };
+
+  public static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  public render() {
+    if (this.state.error !== null) {
+      return "outer: " + this.state.error.message;
+    }
+    return this.props.children;
+  }
+}
+
+it('InjectGuarded reports errors and rethrows them without an error fallback', () => {
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    const renderer = TestRenderer.create(
+      <OuterBoundary>
+        <FooContext.Provider value="foo">
+          <Component baz="baz" />
+        </FooContext.Provider>
+      </OuterBoundary>
+    );
+
+    expect(renderer.toJSON()).toEqual("outer: failed to render foo");
+    expect(errors).toEqual(["InjectGuarded(Component): failed to render foo"]);
+  } finally {
+    console.error = consoleError;
+  }
+});
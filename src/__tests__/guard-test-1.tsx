@@ -0,0 +1,89 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Guard, InjectGuarded, InjectFallbackProps } from '../index';
+
+interface Loading {
+  status: "loading";
+}
+
+interface Loaded {
+  status: "loaded";
+  name: string;
+}
+
+const UserContext = React.createContext<Loading | Loaded>({ status: "loading" });
+const ItemsContext = React.createContext<string[]>([]);
+const FooContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  user: Loaded;
+  items: string[];
+  foo: string;
+  bar: string;
+}
+
+const Fallback = (props: InjectFallbackProps<{ bar: string }, "user" | "items" | "foo">) => {
+  return (
+    <>
+      {props.missingProps.join(",")}
+    </>
+  );
+};
+
+const Component = InjectGuarded(
+  {
+    user: Guard(UserContext, (value): value is Loaded => value.status === "loaded"),
+    items: Guard(ItemsContext, (value) => value.length > 0),
+    // Without a guard, only undefined is missing.
+    foo: FooContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.user.name}
+          {this.props.items.join(",")}
+          {this.props.foo}
+          {this.props.bar}
+        </>
+      );
+    }
+  },
+  {
+    fallback: Fallback,
+  }
+);
+
+interface DocumentProps {
+  user: Loading | Loaded;
+  items: string[];
+  foo?: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <UserContext.Provider value={this.props.user}>
+        <ItemsContext.Provider value={this.props.items}>
+          <FooContext.Provider value={this.props.foo}>
+            <Component bar="bar" />
+          </FooContext.Provider>
+        </ItemsContext.Provider>
+      </UserContext.Provider>
+    );
+  }
+}
+
+it('InjectGuarded uses guards to decide whether values are missing', () => {
+  const renderer = TestRenderer.create(<Document user={{ status: "loading" }} items={[]} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document user={{ status: "loaded", name: "user" }} items={[]} foo="" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document user={{ status: "loaded", name: "user" }} items={["a", "b"]} foo="" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
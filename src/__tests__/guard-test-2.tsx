@@ -0,0 +1,77 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Guard, InjectSingleGuarded, useInjectedGuarded } from '../index';
+
+interface Session {
+  user: string;
+}
+
+const SessionContext = React.createContext<Session | null>(null);
+
+const Component = InjectSingleGuarded(
+  Guard(SessionContext, (value): value is Session => value !== null),
+  "session",
+  class Component extends React.Component<{ session: Session, bar: string }, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.session.user}
+          {this.props.bar}
+        </>
+      );
+    }
+  },
+  {
+    fallback: <>signed out</>,
+  }
+);
+
+const HookComponent = () => {
+  const injected = useInjectedGuarded({
+    session: Guard(SessionContext, (value): value is Session => value !== null),
+  });
+  if (injected === undefined) {
+    return null;
+  }
+  return (
+    <>
+      {injected.session.user}
+    </>
+  );
+};
+
+it('InjectSingleGuarded uses the guard to decide whether the value is missing', () => {
+  const renderer = TestRenderer.create(
+    <SessionContext.Provider value={null}>
+      <Component bar="bar" />
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toEqual("signed out");
+
+  renderer.update(
+    <SessionContext.Provider value={{ user: "user" }}>
+      <Component bar="bar" />
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('useInjectedGuarded uses the guard to decide whether the value is missing', () => {
+  const renderer = TestRenderer.create(
+    <SessionContext.Provider value={null}>
+      <HookComponent />
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toEqual(null);
+
+  renderer.update(
+    <SessionContext.Provider value={{ user: "user" }}>
+      <HookComponent />
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toEqual("user");
+});
@@ -0,0 +1,68 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectDefaults } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+const Component = InjectDefaults(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.foo}
+          {this.props.bar}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  foo?: string;
+  bar?: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <FooContext.Provider value="foo2">
+        <BarContext.Provider value="bar2">
+          <Component baz="baz" foo={this.props.foo} bar={this.props.bar} />
+        </BarContext.Provider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+it('InjectDefaults injects context values when properties are not passed', () => {
+  const renderer = TestRenderer.create(<Document />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectDefaults uses explicitly passed properties over context values', () => {
+  const renderer = TestRenderer.create(<Document foo="foo3" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo3" bar="bar3" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  // Going back to undefined uses the context value again.
+  renderer.update(<Document bar="bar3" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
@@ -0,0 +1,79 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectGuarded, InjectFallbackProps } from '../index';
+
+const FooContext = React.createContext<string | undefined>(undefined);
+const BarContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+let fallbackRenders = 0;
+
+const Fallback = (props: InjectFallbackProps<{ baz: string }, "foo" | "bar">) => {
+  fallbackRenders++;
+  return (
+    <>
+      {"loading"}
+      {props.baz}
+      {props.missingProps.join(",")}
+    </>
+  );
+};
+
+const Component = InjectGuarded(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.foo}
+          {this.props.bar}
+          {this.props.baz}
+        </>
+      );
+    }
+  },
+  {
+    fallback: Fallback,
+  }
+);
+
+interface DocumentProps {
+  foo: string | undefined;
+  bar: string | undefined;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <BarContext.Provider value={this.props.bar}>
+          <Component baz="baz" />
+        </BarContext.Provider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+it('InjectGuarded renders the fallback component once with all missing props', () => {
+  const renderer = TestRenderer.create(<Document foo={undefined} bar={undefined} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(fallbackRenders).toEqual(1);
+
+  renderer.update(<Document foo="foo1" bar={undefined} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo1" bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(fallbackRenders).toEqual(2);
+});
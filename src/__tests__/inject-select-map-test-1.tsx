@@ -0,0 +1,84 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectSelectMap, Select } from '../index';
+
+interface AppState {
+  user: { name: string; roles: string[] };
+  counter: number;
+}
+
+const AppStateContext = React.createContext<AppState>({ user: { name: "foo", roles: [] }, counter: 0 });
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  user: { name: string; roles: string[] };
+  roleCount: number;
+  bar: string;
+  baz: string;
+}
+
+let renders = 0;
+
+const Component = InjectSelectMap(
+  {
+    user: Select(AppStateContext, (state) => state.user, {
+      isEqual: (previous, next) => previous.name === next.name,
+    }),
+    roleCount: Select(AppStateContext, (state) => state.user.roles.length),
+    bar: Select(BarContext, (value) => value.toUpperCase()),
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.user.name}
+          {this.props.roleCount}
+          {this.props.bar}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  name: string;
+  roles: string[];
+  counter: number;
+  bar: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <AppStateContext.Provider value={{ user: { name: this.props.name, roles: this.props.roles }, counter: this.props.counter }}>
+        <BarContext.Provider value={this.props.bar}>
+          <Component baz="baz" />
+        </BarContext.Provider>
+      </AppStateContext.Provider>
+    );
+  }
+}
+
+it('InjectSelectMap only re-renders when a selected value changes', () => {
+  const renderer = TestRenderer.create(<Document name="foo1" roles={["a"]} counter={1} bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document name="foo1" roles={["b"]} counter={2} bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document name="foo1" roles={["b", "c"]} counter={2} bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+
+  renderer.update(<Document name="foo1" roles={["b", "c"]} counter={2} bar="bar2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(3);
+});
@@ -0,0 +1,72 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectSelect } from '../index';
+
+interface AppState {
+  user: { name: string };
+  counter: number;
+}
+
+const AppStateContext = React.createContext<AppState>({ user: { name: "foo" }, counter: 0 });
+
+interface ComponentProps {
+  userName: string;
+  baz: string;
+}
+
+let renders = 0;
+
+const Component = InjectSelect(
+  AppStateContext,
+  (state) => state.user.name,
+  "userName",
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.userName}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  name: string;
+  counter: number;
+  baz: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <AppStateContext.Provider value={{ user: { name: this.props.name }, counter: this.props.counter }}>
+        <Component baz={this.props.baz} />
+      </AppStateContext.Provider>
+    );
+  }
+}
+
+it('InjectSelect only re-renders when the selected value or props change', () => {
+  const renderer = TestRenderer.create(<Document name="foo1" counter={1} baz="baz" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document name="foo1" counter={2} baz="baz" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document name="foo2" counter={2} baz="baz" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+
+  renderer.update(<Document name="foo2" counter={3} baz="baz2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(3);
+});
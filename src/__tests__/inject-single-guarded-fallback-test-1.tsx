@@ -0,0 +1,46 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectSingleGuarded } from '../index';
+
+const FooContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+}
+
+const Component = InjectSingleGuarded(
+  FooContext,
+  "foo",
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.foo}
+          {this.props.bar}
+        </>
+      );
+    }
+  },
+  {
+    fallback: <p>loading</p>,
+  }
+);
+
+it('InjectSingleGuarded renders the fallback element when the value is undefined', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value={undefined}>
+      <Component bar="bar" />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <FooContext.Provider value="foo">
+      <Component bar="bar" />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
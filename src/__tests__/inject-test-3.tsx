@@ -0,0 +1,57 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectSingle } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class Wrapped extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = Inject(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  Wrapped
+);
+
+const SingleComponent = InjectSingle(FooContext, "foo", Wrapped);
+
+it('Inject replaces stray injected properties with the context values', () => {
+  // The types don't allow the injected properties, so they can only be passed by casting.
+  const AnyComponent = Component as React.ComponentType<any>;
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo2">
+      <AnyComponent foo="stray" bar="stray" baz="baz" />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectSingle replaces a stray injected property with the context value', () => {
+  const AnySingleComponent = SingleComponent as React.ComponentType<any>;
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo2">
+      <AnySingleComponent foo="stray" bar="bar" baz="baz" />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
@@ -0,0 +1,127 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectWith, InjectionAudit, MissingProviderReport, getInjectionMetadata } from '../index';
+import { renderInjected } from '../testing';
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const UserContext = React.createContext<User>({ id: "1", name: "foo" });
+const PermissionsContext = React.createContext<string[]>([]);
+
+interface ComponentProps {
+  canEdit: boolean;
+  userName: string;
+  ownerId: string;
+}
+
+let renders = 0;
+
+const Component = InjectWith(
+  {
+    user: UserContext,
+    permissions: PermissionsContext,
+  },
+  (values, ownProps) => ({
+    canEdit: values.permissions.indexOf("edit") !== -1 && values.user.id === ownProps.ownerId,
+    userName: values.user.name,
+  }),
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.userName}
+          {this.props.canEdit ? "can edit" : "can not edit"}
+          {this.props.ownerId}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  user: User;
+  permissions: string[];
+  ownerId: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <UserContext.Provider value={this.props.user}>
+        <PermissionsContext.Provider value={this.props.permissions}>
+          <Component ownerId={this.props.ownerId} />
+        </PermissionsContext.Provider>
+      </UserContext.Provider>
+    );
+  }
+}
+
+it('InjectWith derives properties from contexts and own properties', () => {
+  const renderer = TestRenderer.create(<Document user={{ id: "1", name: "foo1" }} permissions={["edit"]} ownerId="1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document user={{ id: "1", name: "foo1" }} permissions={["edit"]} ownerId="2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+});
+
+it('InjectWith only re-renders when the derived properties change', () => {
+  renders = 0;
+  const renderer = TestRenderer.create(<Document user={{ id: "1", name: "foo1" }} permissions={["edit"]} ownerId="1" />);
+
+  expect(renders).toEqual(1);
+
+  // New context values that derive the same properties.
+  renderer.update(<Document user={{ id: "1", name: "foo1" }} permissions={["edit", "delete"]} ownerId="1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(1);
+
+  renderer.update(<Document user={{ id: "1", name: "foo2" }} permissions={["edit", "delete"]} ownerId="1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+});
+
+const Greeting = InjectWith(
+  {
+    user: UserContext,
+  },
+  (values) => ({
+    user: values.user.name,
+  }),
+  (props: { user: string }) => <>{props.user}</>
+);
+
+it('InjectWith describes the context map in its metadata', () => {
+  expect(getInjectionMetadata(Component).props.map((prop) => prop.propName)).toEqual(["user", "permissions"]);
+
+  let reports: MissingProviderReport[] = [];
+  TestRenderer.create(
+    <InjectionAudit onReport={(missing) => reports = missing}>
+      <UserContext.Provider value={{ id: "1", name: "foo1" }}>
+        <Component ownerId="1" />
+      </UserContext.Provider>
+    </InjectionAudit>
+  );
+
+  expect(reports.map((report) => report.propName)).toEqual(["permissions"]);
+});
+
+it('InjectWith components can be rendered with renderInjected', () => {
+  const { renderer, unsuppliedProps } = renderInjected(Greeting, {
+    injected: { user: "foo2" },
+    props: {},
+  });
+
+  expect(unsuppliedProps).toEqual([]);
+  expect(renderer.toJSON()).toBe("foo2");
+  expect(renderInjected(Greeting, { props: {} }).unsuppliedProps).toEqual(["user"]);
+});
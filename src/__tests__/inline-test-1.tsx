@@ -0,0 +1,124 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectGuarded, InjectSingle, InjectionScope } from '../index';
+
+// The installed typings for react-test-renderer predate act.
+const act: (callback: () => void) => void = (TestRenderer as any).act;
+
+// These components are inlined when the tests run with `yarn test:transformed`, and should
+// render exactly the same as they do without the transformer.
+
+const FooContext = React.createContext<string>("foo");
+const CountContext = React.createContext<number>(1);
+const SessionContext = React.createContext<string | undefined>(undefined);
+
+const Greeting = Inject(
+  {
+    foo: FooContext,
+    count: CountContext,
+  },
+  (props: { foo: string, count: number, name: string }) => <div>{props.foo} {props.count} {props.name}</div>
+);
+
+const Counter = InjectSingle(
+  CountContext,
+  "count",
+  function Counter(props: { count: number, step: number }) {
+    const [value, setValue] = React.useState(props.count);
+    return <button onClick={() => setValue(value + props.step)}>{value}</button>;
+  }
+);
+
+const Session = InjectGuarded(
+  {
+    session: SessionContext,
+  },
+  (props: { session: string, children?: React.ReactNode }) => <span>{props.session}{props.children}</span>
+);
+
+function Farewell(props: { foo: string, name: string }) {
+  return <div>{props.foo} {props.name}</div>;
+}
+
+const NamedFarewell = Inject(
+  {
+    foo: FooContext,
+  },
+  Farewell
+);
+
+it('Inlined components render the injected values', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo1">
+      <Greeting name="name1" />
+      <InjectionScope overrides={[[CountContext, 2]]}>
+        <Greeting name="name2" />
+      </InjectionScope>
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Inlined named components render the injected values', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo1">
+      <NamedFarewell name="name1" />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Inlined components keep the state of their hooks', () => {
+  const renderer = TestRenderer.create(<Counter step={2} />);
+
+  act(() => {
+    renderer.root.findByType("button").props.onClick();
+  });
+  renderer.update(<Counter step={2} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Inlined guarded components render nothing while a value is missing', () => {
+  const renderer = TestRenderer.create(
+    <SessionContext.Provider value={undefined}>
+      <Session>child</Session>
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toBeNull();
+
+  renderer.update(
+    <SessionContext.Provider value="session1">
+      <Session>child</Session>
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <SessionContext.Provider value={undefined}>
+      <Session>child</Session>
+    </SessionContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toBeNull();
+});
+
+it('Inlined components warn about refs in the same way as function components', () => {
+  const consoleError = console.error;
+  const errors: string[] = [];
+  console.error = (message: string) => errors.push(message);
+  try {
+    const ref = React.createRef<any>();
+    TestRenderer.create(<Greeting ref={ref} name="name1" />);
+
+    expect(ref.current).toBeNull();
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toContain("Function components cannot be given refs.");
+  } finally {
+    console.error = consoleError;
+  }
+});
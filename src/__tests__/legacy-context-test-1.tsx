@@ -0,0 +1,114 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectGuarded, createLegacyContextBridge, legacyContext, useInjected } from '../index';
+
+// A validator that accepts any value, in place of a validator from prop-types.
+const anyValue = (): Error | null => null;
+
+const FooContext = React.createContext<string>("foo");
+const LegacyBar = legacyContext<string>("bar", anyValue);
+
+interface LegacyProviderProps {
+  bar: string | undefined;
+}
+
+class LegacyProvider extends React.Component<LegacyProviderProps, {}> {
+  public static childContextTypes = { bar: anyValue };
+
+  public getChildContext() {
+    return { bar: this.props.bar };
+  }
+
+  public render() {
+    return this.props.children;
+  }
+}
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = Inject({ foo: FooContext, bar: LegacyBar }, ComponentTest);
+const GuardedComponent = InjectGuarded({ foo: FooContext, bar: LegacyBar }, ComponentTest);
+
+interface DocumentProps {
+  foo: string;
+  bar: string | undefined;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public ref = React.createRef<ComponentTest>();
+
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <LegacyProvider bar={this.props.bar}>
+          <Component ref={this.ref} baz="baz1" />
+          <GuardedComponent baz="baz2" />
+        </LegacyProvider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+it('Inject reads new and legacy contexts together', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect((renderer.getInstance() as any as Document).ref.current).toBeInstanceOf(ComponentTest);
+
+  renderer.update(<Document foo="foo2" bar={undefined} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('createLegacyContextBridge exposes a legacy context as a React context', () => {
+  const Bridge = createLegacyContextBridge(LegacyBar);
+  const BridgedComponent = InjectGuarded({ foo: FooContext, bar: Bridge.Context }, ComponentTest);
+  const HookComponent = () => {
+    const { bar } = useInjected({ bar: Bridge.Context });
+    return <>{bar}</>;
+  };
+  const renderer = TestRenderer.create(
+    <LegacyProvider bar="bar1">
+      <Bridge.Provider>
+        <BridgedComponent baz="baz1" />
+        <HookComponent />
+      </Bridge.Provider>
+    </LegacyProvider>
+  );
+
+  expect(Bridge.Context.displayName).toEqual("LegacyContext(bar)");
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('useInjected raises an error for legacy contexts', () => {
+  const HookComponent = () => {
+    // This is a type error, so the cast stands in for an untyped caller.
+    const { bar } = useInjected({ bar: LegacyBar as any });
+    return <>{bar}</>;
+  };
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    expect(() => TestRenderer.create(<HookComponent />)).toThrow(
+      'The legacy context "bar" can only be read by Inject'
+    );
+  } finally {
+    console.error = consoleError;
+  }
+});
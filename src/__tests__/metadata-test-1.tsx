@@ -0,0 +1,50 @@
+import * as React from 'react';
+import { Inject, InjectGuarded, InjectSingle, getInjectionMetadata } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+FooContext.displayName = "FooContext";
+const BarContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return <>{this.props.foo}{this.props.bar}</>;
+  }
+}
+
+it('getInjectionMetadata describes Inject', () => {
+  const Component = Inject({ foo: FooContext, bar: BarContext }, ComponentTest);
+
+  expect(getInjectionMetadata(Component)).toEqual({
+    injector: "Inject",
+    props: [
+      { propName: "foo", context: FooContext, contextDisplayName: "FooContext", guarded: false },
+      { propName: "bar", context: BarContext, contextDisplayName: undefined, guarded: false },
+    ],
+  });
+});
+
+it('getInjectionMetadata describes InjectSingle', () => {
+  const Component = InjectSingle(FooContext, "foo", ComponentTest);
+
+  expect(getInjectionMetadata(Component)).toEqual({
+    injector: "InjectSingle",
+    props: [
+      { propName: "foo", context: FooContext, contextDisplayName: "FooContext", guarded: false },
+    ],
+  });
+});
+
+it('getInjectionMetadata describes InjectGuarded', () => {
+  const Component = InjectGuarded({ foo: FooContext, bar: BarContext }, ComponentTest);
+
+  expect(getInjectionMetadata(Component).props.map((prop) => prop.guarded)).toEqual([true, true]);
+});
+
+it('getInjectionMetadata returns undefined for other components', () => {
+  expect(getInjectionMetadata(ComponentTest)).toBeUndefined();
+});
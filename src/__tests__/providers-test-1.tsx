@@ -0,0 +1,63 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, createProviders } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string>("bar");
+
+const contexts = {
+  foo: FooContext,
+  bar: BarContext,
+};
+
+const Providers = createProviders(contexts);
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+const Component = Inject(
+  contexts,
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.foo}
+          {this.props.bar}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+interface DocumentProps {
+  foo: string;
+  bar: string;
+  innerBar: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <Providers values={{ foo: this.props.foo, bar: this.props.bar }}>
+        <Component baz="outer" />
+        <Providers values={{ bar: this.props.innerBar }}>
+          <Component baz="inner" />
+        </Providers>
+      </Providers>
+    );
+  }
+}
+
+it('createProviders provides every value in the context map', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" innerBar="innerBar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo2" bar="bar2" innerBar="innerBar2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
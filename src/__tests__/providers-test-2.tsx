@@ -0,0 +1,93 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectRequired, InjectionAudit, MissingProviderReport, createProviders } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+FooContext.displayName = "FooContext";
+const BarContext = React.createContext<string>("bar");
+BarContext.displayName = "BarContext";
+
+const contexts = {
+  foo: FooContext,
+  bar: BarContext,
+};
+
+const Providers = createProviders(contexts);
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return <>{this.props.foo} {this.props.bar}</>;
+  }
+}
+
+const RequiredComponent = InjectRequired(contexts, ComponentTest);
+const Component = Inject(contexts, ComponentTest);
+
+it('InjectRequired reports contexts that createProviders was not given a value for', () => {
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    expect(() => TestRenderer.create(
+      <Providers values={{ foo: "foo1" }}>
+        <RequiredComponent />
+      </Providers>
+    )).toThrow('InjectRequired(ComponentTest) could not inject "bar", because there is no BarContext.Provider above it.');
+  } finally {
+    console.error = consoleError;
+  }
+
+  const renderer = TestRenderer.create(
+    <Providers values={{ bar: "bar1" }}>
+      <Providers values={{ foo: "foo1" }}>
+        <RequiredComponent />
+      </Providers>
+    </Providers>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectionAudit reports contexts that createProviders was not given a value for', () => {
+  let reports: MissingProviderReport[] = [];
+  const renderer = TestRenderer.create(
+    <InjectionAudit onReport={(missing) => reports = missing}>
+      <Providers values={{ foo: "foo1" }}>
+        <Component />
+      </Providers>
+    </InjectionAudit>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(reports).toEqual([{
+    componentName: "Inject(ComponentTest)",
+    propName: "bar",
+    contextDisplayName: "BarContext",
+    message: 'Inject(ComponentTest) could not inject "bar", because there is no BarContext.Provider above it.',
+  }]);
+});
+
+it('createProviders remounts the children when the set of provided keys changes', () => {
+  let mounts = 0;
+  class Counter extends React.Component<{}, {}> {
+    public componentDidMount() {
+      mounts++;
+    }
+
+    public render(): null {
+      return null;
+    }
+  }
+  const renderer = TestRenderer.create(<Providers values={{ foo: "foo1" }}><Counter /></Providers>);
+  renderer.update(<Providers values={{ foo: "foo2" }}><Counter /></Providers>);
+
+  expect(mounts).toBe(1);
+
+  renderer.update(<Providers values={{ foo: "foo2", bar: "bar2" }}><Counter /></Providers>);
+
+  expect(mounts).toBe(2);
+});
@@ -0,0 +1,67 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Guard, Injected, InjectedGuarded, InjectionScope } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<number>(1);
+const OptionalContext = React.createContext<string | undefined>(undefined);
+
+it('Injected calls children with the context values', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo1">
+      <Injected contexts={{ foo: FooContext, bar: BarContext }}>
+        {(values) => <div>{values.foo}{values.bar.toFixed(1)}</div>}
+      </Injected>
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Injected applies context overrides', () => {
+  const renderer = TestRenderer.create(
+    <InjectionScope overrides={[[FooContext, "foo2"]]}>
+      <Injected contexts={{ foo: FooContext }}>
+        {(values) => values.foo}
+      </Injected>
+    </InjectionScope>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+interface DocumentProps {
+  optional: string | undefined;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <OptionalContext.Provider value={this.props.optional}>
+        <InjectedGuarded
+          contexts={{ optional: OptionalContext, nonEmpty: Guard(FooContext, (foo) => foo !== "foo") }}
+          fallback={<span>missing</span>}>
+          {(values) => <div>{values.optional}{values.nonEmpty}</div>}
+        </InjectedGuarded>
+      </OptionalContext.Provider>
+    );
+  }
+}
+
+it('InjectedGuarded only calls children when every value is present', () => {
+  const renderer = TestRenderer.create(<Document optional={undefined} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document optional="optional1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(
+    <FooContext.Provider value="foo2">
+      <Document optional="optional1" />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
@@ -0,0 +1,129 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectRequired, InjectSelect, InjectionScope, useInjected, useInjectedGuarded } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = Inject({ foo: FooContext, bar: BarContext }, ComponentTest);
+const OtherComponent = Inject({ foo: FooContext, bar: BarContext }, ComponentTest);
+const SelectComponent = InjectSelect(BarContext, (bar) => bar.toUpperCase(), "bar", (props: { bar: string }) => <>{props.bar}</>);
+
+it('InjectionScope overrides the values of a specific component', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo1">
+      <InjectionScope overrides={[[Component, { bar: "bar2" }]]}>
+        <Component baz="baz1" />
+        <OtherComponent baz="baz2" />
+      </InjectionScope>
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectionScope overrides a context for every component that reads it', () => {
+  const renderer = TestRenderer.create(
+    <InjectionScope overrides={[[BarContext, "bar2"]]}>
+      <Component baz="baz1" />
+      <OtherComponent baz="baz2" />
+      <SelectComponent />
+    </InjectionScope>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectionScope prefers component overrides and the innermost scope', () => {
+  const renderer = TestRenderer.create(
+    <InjectionScope overrides={[[Component, { foo: "foo2" }], [FooContext, "foo3"]]}>
+      <InjectionScope overrides={[[FooContext, "foo4"]]}>
+        <Component baz="baz1" />
+        <OtherComponent baz="baz2" />
+      </InjectionScope>
+    </InjectionScope>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectionScope context overrides satisfy strict injection', () => {
+  const RequiredComponent = InjectRequired({ foo: FooContext, bar: BarContext }, ComponentTest);
+  const renderer = TestRenderer.create(
+    <InjectionScope overrides={[[FooContext, "foo2"], [BarContext, "bar2"]]}>
+      <RequiredComponent baz="baz1" />
+    </InjectionScope>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('InjectionScope does not re-render injected components when its overrides are unchanged', () => {
+  let renders = 0;
+  const Counted = React.memo(Inject({ foo: FooContext }, (props: { foo: string }) => {
+    renders++;
+    return <>{props.foo}</>;
+  }));
+  const renderer = TestRenderer.create(
+    <InjectionScope overrides={[[FooContext, "foo2"], [Component, { bar: "bar2" }]]}>
+      <InjectionScope overrides={[]}>
+        <Counted />
+      </InjectionScope>
+    </InjectionScope>
+  );
+  for (let i = 0; i < 3; i++) {
+    renderer.update(
+      <InjectionScope overrides={[[FooContext, "foo2"], [Component, { bar: "bar2" }]]}>
+        <InjectionScope overrides={[]}>
+          <Counted />
+        </InjectionScope>
+      </InjectionScope>
+    );
+  }
+
+  expect(renders).toBe(1);
+
+  renderer.update(
+    <InjectionScope overrides={[[FooContext, "foo3"], [Component, { bar: "bar2" }]]}>
+      <InjectionScope overrides={[]}>
+        <Counted />
+      </InjectionScope>
+    </InjectionScope>
+  );
+
+  expect(renders).toBe(2);
+  expect(renderer.toJSON()).toBe("foo3");
+});
+
+it('InjectionScope context overrides apply to the hooks', () => {
+  const HookComponent = () => {
+    const { foo } = useInjected({ foo: FooContext });
+    const guarded = useInjectedGuarded({ bar: BarContext });
+    return <>{foo}{guarded === undefined ? "missing" : guarded.bar}</>;
+  };
+  const renderer = TestRenderer.create(
+    <InjectionScope overrides={[[FooContext, "foo2"], [BarContext, "bar2"]]}>
+      <HookComponent />
+    </InjectionScope>
+  );
+
+  expect(renderer.toJSON()).toEqual(["foo2", "bar2"]);
+});
@@ -0,0 +1,96 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, InjectSingle, InjectSelect } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string>("bar");
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public static defaultProps = {
+    baz: "defaultBaz",
+  };
+
+  public static navigationOptions = {
+    title: "Test",
+  };
+
+  public static create(): string {
+    return "created";
+  }
+
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = Inject(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  ComponentTest
+);
+
+const Nested = InjectSingle(
+  FooContext,
+  "foo",
+  InjectSingle(
+    BarContext,
+    "bar",
+    ComponentTest
+  )
+);
+
+function Selected(props: { length: number }) {
+  return <>{props.length}</>;
+}
+
+const SelectedComponent = InjectSelect(
+  FooContext,
+  (value) => value.length,
+  "length",
+  Selected
+);
+
+it('injected components have a display name', () => {
+  expect(Component.displayName).toEqual("Inject(ComponentTest)");
+  expect(Nested.displayName).toEqual("InjectSingle(InjectSingle(ComponentTest))");
+  expect(SelectedComponent.displayName).toEqual("InjectSelect(Selected)");
+});
+
+it('injected components have the non-React statics of the wrapped component', () => {
+  const created: string = Component.create();
+  const title: string = Nested.navigationOptions.title;
+
+  expect(created).toEqual("created");
+  expect(title).toEqual("Test");
+  expect(Component.hasOwnProperty("defaultProps")).toEqual(false);
+});
+
+it('injected components expose the wrapped component', () => {
+  expect(Component.WrappedComponent).toBe(ComponentTest);
+  expect(Nested.WrappedComponent.WrappedComponent).toBe(ComponentTest);
+  expect(SelectedComponent.WrappedComponent).toBe(Selected);
+});
+
+it('default props of the wrapped component still apply', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo2">
+      <Component baz={undefined} />
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
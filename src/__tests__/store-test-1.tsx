@@ -0,0 +1,111 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { Inject, StoreSource } from '../index';
+
+// The installed typings for react-test-renderer predate act.
+const act: (callback: () => void) => void = (TestRenderer as any).act;
+
+function createStore<T>(initial: T) {
+  let state = initial;
+  const listeners: Array<() => void> = [];
+  const store = {
+    subscribe: (listener: () => void) => {
+      listeners.push(listener);
+      return () => {
+        listeners.splice(listeners.indexOf(listener), 1);
+      };
+    },
+    getSnapshot: () => state,
+    setState: (next: T) => {
+      state = next;
+      listeners.slice().forEach((listener) => listener());
+    },
+    listeners,
+  };
+  return store;
+}
+
+const FooContext = React.createContext<string>("foo");
+const countStore = createStore(1);
+const countSource: StoreSource<number> = countStore;
+
+interface ComponentProps {
+  foo: string;
+  count: number;
+  baz: string;
+}
+
+let renders = 0;
+
+const Component = Inject(
+  {
+    foo: FooContext,
+    count: countSource,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      renders++;
+      return (
+        <>
+          {this.props.foo}
+          {this.props.count + 1}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+it('Inject subscribes to store sources and injects their snapshots', () => {
+  let renderer: TestRenderer.ReactTestRenderer = null as any;
+  act(() => {
+    renderer = TestRenderer.create(
+      <FooContext.Provider value="foo1">
+        <Component baz="baz" />
+      </FooContext.Provider>
+    );
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(countStore.listeners.length).toEqual(1);
+  expect(renders).toEqual(1);
+
+  act(() => {
+    countStore.setState(2);
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(renders).toEqual(2);
+
+  // Notifying without changing the snapshot does not re-render.
+  act(() => {
+    countStore.setState(2);
+  });
+
+  expect(renders).toEqual(2);
+
+  act(() => {
+    renderer.unmount();
+  });
+
+  expect(countStore.listeners.length).toEqual(0);
+});
+
+it('Inject picks up changes to a store source made before subscribing', () => {
+  const store = createStore("before");
+  const Changed = Inject(
+    {
+      value: store as StoreSource<string>,
+    },
+    (props: { value: string }) => <>{props.value}</>
+  );
+
+  let renderer: TestRenderer.ReactTestRenderer = null as any;
+  act(() => {
+    renderer = TestRenderer.create(<Changed />);
+    // The component has rendered, but its effects have not run yet.
+    store.setState("after");
+  });
+
+  expect(renderer.toJSON()).toEqual("after");
+});
@@ -0,0 +1,77 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectGuarded, fromObservable } from '../index';
+
+// The installed typings for react-test-renderer predate act.
+const act: (callback: () => void) => void = (TestRenderer as any).act;
+
+// A minimal subject, in the style of RxJS.
+function createSubject<T>() {
+  const observers: Array<{ next: (value: T) => void }> = [];
+  return {
+    subscribe: (observer: { next: (value: T) => void }) => {
+      observers.push(observer);
+      return {
+        unsubscribe: () => {
+          observers.splice(observers.indexOf(observer), 1);
+        },
+      };
+    },
+    next: (value: T) => {
+      observers.slice().forEach((observer) => observer.next(value));
+    },
+    observers,
+  };
+}
+
+const user$ = createSubject<string | undefined>();
+
+interface ComponentProps {
+  user: string;
+  baz: string;
+}
+
+const Component = InjectGuarded(
+  {
+    user: fromObservable(user$, undefined),
+  },
+  (props: ComponentProps) => {
+    return (
+      <>
+        {props.user}
+        {props.baz}
+      </>
+    );
+  },
+  {
+    fallback: <>signed out</>,
+  }
+);
+
+it('InjectGuarded does not render while an observable has no value', () => {
+  let renderer: TestRenderer.ReactTestRenderer = null as any;
+  act(() => {
+    renderer = TestRenderer.create(<Component baz="baz" />);
+  });
+
+  expect(renderer.toJSON()).toEqual("signed out");
+  expect(user$.observers.length).toEqual(1);
+
+  act(() => {
+    user$.next("user1");
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  act(() => {
+    user$.next(undefined);
+  });
+
+  expect(renderer.toJSON()).toEqual("signed out");
+
+  act(() => {
+    renderer.unmount();
+  });
+
+  expect(user$.observers.length).toEqual(0);
+});
@@ -0,0 +1,135 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { InjectRequired, InjectGuarded } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+FooContext.displayName = "FooContext";
+const BarContext = React.createContext<string | undefined>(undefined);
+BarContext.displayName = "BarContext";
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = InjectRequired(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  ComponentTest
+);
+
+const GuardedComponent = InjectGuarded(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  ComponentTest,
+  {
+    strict: true,
+  }
+);
+
+function withoutConsoleErrors(callback: () => void) {
+  const consoleError = console.error;
+  console.error = () => {};
+  try {
+    callback();
+  } finally {
+    console.error = consoleError;
+  }
+}
+
+it('strict injection renders when every provider is present', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo">
+      <BarContext.Provider value="bar">
+        <Component baz="baz" />
+      </BarContext.Provider>
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('strict injection throws when a context with a default value has no provider', () => {
+  withoutConsoleErrors(() => {
+    expect(() => TestRenderer.create(
+      <BarContext.Provider value="bar">
+        <Component baz="baz" />
+      </BarContext.Provider>
+    )).toThrow('InjectRequired(ComponentTest) could not inject "foo", because there is no FooContext.Provider above it.');
+  });
+});
+
+it('strict injection throws when a context with an undefined default has no provider', () => {
+  withoutConsoleErrors(() => {
+    expect(() => TestRenderer.create(
+      <FooContext.Provider value="foo">
+        <GuardedComponent baz="baz" />
+      </FooContext.Provider>
+    )).toThrow('InjectGuarded(ComponentTest) could not inject "bar", because there is no BarContext.Provider above it.');
+  });
+});
+
+it('strict injection throws when only a consumer of the context is above it', () => {
+  withoutConsoleErrors(() => {
+    expect(() => TestRenderer.create(
+      <BarContext.Provider value="bar">
+        <FooContext.Consumer>
+          {() => <Component baz="baz" />}
+        </FooContext.Consumer>
+      </BarContext.Provider>
+    )).toThrow('InjectRequired(ComponentTest) could not inject "foo", because there is no FooContext.Provider above it.');
+  });
+});
+
+it('strict injection allows providers to explicitly provide undefined', () => {
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo">
+      <BarContext.Provider value={undefined}>
+        <GuardedComponent baz="baz" />
+      </BarContext.Provider>
+    </FooContext.Provider>
+  );
+
+  expect(renderer.toJSON()).toBeNull();
+});
+
+it('strict injection logs instead of throwing in production', () => {
+  const nodeEnv = process.env.NODE_ENV;
+  const consoleError = console.error;
+  const errors: string[] = [];
+  process.env.NODE_ENV = "production";
+  console.error = (message: string) => errors.push(message);
+  try {
+    const renderer = TestRenderer.create(<Component baz="baz" />);
+
+    expect(renderer.toJSON()).toMatchSnapshot();
+    expect(errors).toEqual([
+      'InjectRequired(ComponentTest) could not inject "foo", because there is no FooContext.Provider above it.',
+      'InjectRequired(ComponentTest) could not inject "bar", because there is no BarContext.Provider above it.',
+    ]);
+
+    renderer.update(<Component baz="baz2" />);
+
+    expect(errors.length).toBe(2);
+  } finally {
+    process.env.NODE_ENV = nodeEnv;
+    console.error = consoleError;
+  }
+});
@@ -0,0 +1,82 @@
+import * as React from 'react';
+import { Inject, InjectGuarded, InjectSelect } from '../index';
+import { renderInjected } from '../testing';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = Inject(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  ComponentTest
+);
+
+const GuardedComponent = InjectGuarded(
+  {
+    foo: FooContext,
+    bar: BarContext,
+  },
+  ComponentTest
+);
+
+const SelectedComponent = InjectSelect(
+  FooContext,
+  (value) => value.length,
+  "length",
+  (props: { length: number, baz: string }) => <>{props.length}{props.baz}</>
+);
+
+it('renderInjected supplies the injected values', () => {
+  const { renderer, unsuppliedProps } = renderInjected(Component, {
+    injected: { foo: "foo1", bar: "bar1" },
+    props: { baz: "baz" },
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(unsuppliedProps).toEqual([]);
+});
+
+it('renderInjected reports the injected values that were not supplied', () => {
+  const { renderer, unsuppliedProps } = renderInjected(GuardedComponent, {
+    injected: { foo: "foo1" },
+    props: { baz: "baz" },
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+  expect(unsuppliedProps).toEqual(["bar"]);
+});
+
+it('renderInjected supplies selected values', () => {
+  const { renderer } = renderInjected(SelectedComponent, {
+    injected: { length: 10 },
+    props: { baz: "baz" },
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('renderInjected requires an injected component', () => {
+  expect(() => renderInjected(ComponentTest as any, { props: {} })).toThrow(
+    'ComponentTest was not created by one of the react-injectable injection functions.'
+  );
+});
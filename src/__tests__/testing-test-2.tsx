@@ -0,0 +1,35 @@
+import * as React from 'react';
+import { InjectGuarded } from '../index';
+import { renderUnwrapped } from '../testing';
+
+const FooContext = React.createContext<string | undefined>(undefined);
+
+interface ComponentProps {
+  foo: string;
+  baz: string;
+}
+
+const Component = InjectGuarded(
+  {
+    foo: FooContext,
+  },
+  class Component extends React.Component<ComponentProps, {}> {
+    public render() {
+      return (
+        <>
+          {this.props.foo}
+          {this.props.baz}
+        </>
+      );
+    }
+  }
+);
+
+it('renderUnwrapped renders the wrapped component with the injected values', () => {
+  const renderer = renderUnwrapped(Component, {
+    injected: { foo: "foo1" },
+    props: { baz: "baz" },
+  });
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
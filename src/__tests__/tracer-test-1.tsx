@@ -0,0 +1,140 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import {
+  ContainerProvider, Inject, InjectGuarded, InjectServices, InjectWith, InjectionTrace, InjectionTracer, createContainer, createToken,
+  setInjectionTracer,
+} from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const BarContext = React.createContext<string | undefined>("bar");
+
+interface ComponentProps {
+  foo: string;
+  bar: string;
+  baz: string;
+}
+
+class ComponentTest extends React.Component<ComponentProps, {}> {
+  public render() {
+    return (
+      <>
+        {this.props.foo}
+        {this.props.bar}
+        {this.props.baz}
+      </>
+    );
+  }
+}
+
+const Component = Inject({ foo: FooContext, bar: BarContext }, ComponentTest);
+const GuardedComponent = InjectGuarded({ foo: FooContext, bar: BarContext }, ComponentTest);
+
+interface DocumentProps {
+  foo: string;
+  bar: string | undefined;
+  baz: string;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <BarContext.Provider value={this.props.bar}>
+          <Component baz={this.props.baz} />
+          <GuardedComponent baz={this.props.baz} />
+        </BarContext.Provider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+let traces: InjectionTrace[];
+let previousTracer: InjectionTracer | undefined;
+
+beforeEach(() => {
+  traces = [];
+  previousTracer = setInjectionTracer((trace) => traces.push(trace));
+});
+
+afterEach(() => {
+  setInjectionTracer(previousTracer);
+});
+
+it('Tracer reports the first render of each injected component', () => {
+  TestRenderer.create(<Document foo="foo1" bar="bar1" baz="baz1" />);
+
+  expect(traces).toEqual([
+    { componentName: "Inject(ComponentTest)", firstRender: true, changes: [], suppressed: false },
+    { componentName: "InjectGuarded(ComponentTest)", firstRender: true, changes: [], suppressed: false },
+  ]);
+});
+
+it('Tracer reports the injected properties that changed', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" baz="baz1" />);
+  traces = [];
+  renderer.update(<Document foo="foo2" bar="bar1" baz="baz1" />);
+
+  expect(traces.map((trace) => trace.changes)).toEqual([
+    [{ propName: "foo", previous: "foo1", next: "foo2" }],
+    [{ propName: "foo", previous: "foo1", next: "foo2" }],
+  ]);
+
+  traces = [];
+  renderer.update(<Document foo="foo2" bar="bar1" baz="baz2" />);
+
+  expect(traces.map((trace) => trace.changes)).toEqual([[], []]);
+});
+
+it('Tracer reports renders suppressed by a guard', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" baz="baz1" />);
+  traces = [];
+  renderer.update(<Document foo="foo1" bar={undefined} baz="baz1" />);
+
+  expect(traces.map((trace) => trace.suppressed)).toEqual([false, true]);
+});
+
+it('Tracer is not called once it is disabled', () => {
+  setInjectionTracer(undefined);
+  TestRenderer.create(<Document foo="foo1" bar="bar1" baz="baz1" />);
+
+  expect(traces).toEqual([]);
+});
+
+it('Tracer reports renders of InjectWith and InjectServices components', () => {
+  const WithComponent = InjectWith(
+    { foo: FooContext },
+    (values) => ({ foo: values.foo.toUpperCase() }),
+    ComponentTest
+  );
+  const BazToken = createToken<string>("Baz");
+  const container = createContainer().register(BazToken, { lifetime: "singleton", factory: () => "baz1" });
+  const ServicesComponent = InjectServices({ baz: BazToken }, ComponentTest);
+  const renderer = TestRenderer.create(
+    <FooContext.Provider value="foo1">
+      <ContainerProvider container={container}>
+        <WithComponent bar="bar" baz="baz" />
+        <ServicesComponent foo="foo" bar="bar" />
+      </ContainerProvider>
+    </FooContext.Provider>
+  );
+  renderer.update(
+    <FooContext.Provider value="foo2">
+      <ContainerProvider container={container}>
+        <WithComponent bar="bar" baz="baz" />
+        <ServicesComponent foo="foo" bar="bar" />
+      </ContainerProvider>
+    </FooContext.Provider>
+  );
+
+  expect(traces).toEqual([
+    { componentName: "InjectWith(ComponentTest)", firstRender: true, changes: [], suppressed: false },
+    { componentName: "InjectServices(ComponentTest)", firstRender: true, changes: [], suppressed: false },
+    {
+      componentName: "InjectWith(ComponentTest)",
+      firstRender: false,
+      changes: [{ propName: "foo", previous: "FOO1", next: "FOO2" }],
+      suppressed: false,
+    },
+    { componentName: "InjectServices(ComponentTest)", firstRender: false, changes: [], suppressed: false },
+  ]);
+});
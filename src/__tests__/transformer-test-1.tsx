@@ -0,0 +1,137 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import * as ts from 'typescript';
+import { Inject } from '../index';
+import { INLINE_WRAPPED_COMPONENT } from '../internal';
+import { createInjectTransformer } from '../transformer';
+
+function transform(source: string) {
+  return ts.transpileModule(source, {
+    compilerOptions: {
+      jsx: ts.JsxEmit.Preserve,
+      module: ts.ModuleKind.ES2015,
+      target: ts.ScriptTarget.ES2015,
+    },
+    transformers: {
+      before: [createInjectTransformer()],
+    },
+  }).outputText;
+}
+
+it('Transformer marks inline function components as safe to call directly', () => {
+  expect(transform(`
+import { Inject, InjectGuarded as Guarded, InjectSingle } from "react-injectable";
+import * as Injectable from "react-injectable";
+
+export const A = Inject({ foo: FooContext, "bar": BarContext }, (props) => <div>{props.foo}</div>);
+export const B = Guarded({ foo }, function B(props) { return <div>{props.foo}</div>; });
+export const C = InjectSingle(FooContext, "foo", (props) => {
+  const [value] = React.useState(props.foo);
+  return <div>{value}</div>;
+});
+export const D = Injectable.Inject({ foo: FooContext }, (props) => <div>{props.foo}</div>);
+`)).toMatchSnapshot();
+});
+
+it('Transformer leaves calls that it can not inline unchanged', () => {
+  expect(transform(`
+import { Inject, InjectGuarded, InjectRequired } from "react-injectable";
+import { Inject as OtherInject } from "other-library";
+
+export const A = Inject(contextMap, (props) => <div>{props.foo}</div>);
+export const B = Inject({ [key]: FooContext }, (props) => <div>{props.foo}</div>);
+export const C = Inject({ foo: FooContext }, Component);
+export const D = Inject({ foo: FooContext }, class D extends React.Component {});
+export const E = Inject({ foo: FooContext }, (props) => <div>{props.foo}</div>, { strict: true });
+export const F = Inject({ foo: FooContext }, (props, ref) => <div ref={ref} />);
+export const G = Inject({ foo: FooContext }, function G() { return <div>{this.props.foo}</div>; });
+export const H = InjectGuarded({ foo: FooContext }, (props) => {
+  const [value] = useState(props.foo);
+  return <div>{value}</div>;
+});
+export const I = InjectRequired({ foo: FooContext }, (props) => <div>{props.foo}</div>);
+export const J = OtherInject({ foo: FooContext }, (props) => <div>{props.foo}</div>);
+`)).toMatchSnapshot();
+});
+
+it('Transformer marks function components declared in the same file as safe to call directly', () => {
+  expect(transform(`
+import { Inject, InjectGuarded } from "react-injectable";
+
+function Title(props) {
+  return <h1>{props.foo}</h1>;
+}
+const Subtitle = (props) => <h2>{props.foo}</h2>;
+export default function Badge(props) {
+  return <span>{props.foo}</span>;
+}
+
+export const A = Inject({ foo: FooContext }, Title);
+export const B = InjectGuarded({ foo: FooContext }, Subtitle);
+export const C = Inject({ foo: FooContext }, (Badge));
+`)).toMatchSnapshot();
+});
+
+it('Transformer leaves named components that it can not resolve unchanged', () => {
+  expect(transform(`
+import { Inject, InjectGuarded } from "react-injectable";
+import { Imported } from "./imported";
+
+let Mutable = (props) => <div>{props.foo}</div>;
+function Shadowed(props) {
+  return <div>{props.foo}</div>;
+}
+function Reassigned(props) {
+  return <div>{props.foo}</div>;
+}
+Reassigned = (props) => null;
+const WithRef = (props, ref) => <div ref={ref} />;
+function Hooks(props) {
+  const [value] = useState(props.foo);
+  return <div>{value}</div>;
+}
+class Declared extends React.Component {}
+
+export const A = Inject({ foo: FooContext }, Imported);
+export const B = Inject({ foo: FooContext }, Mutable);
+export function createShadowed(Shadowed) {
+  return Inject({ foo: FooContext }, Shadowed);
+}
+export const C = Inject({ foo: FooContext }, Reassigned);
+export const D = Inject({ foo: FooContext }, WithRef);
+export const E = InjectGuarded({ foo: FooContext }, Hooks);
+export const F = Inject({ foo: FooContext }, Declared);
+`)).toMatchSnapshot();
+});
+
+const FooContext = React.createContext<string>("foo");
+
+it('Inlined components do not render the wrapped component as a separate component', () => {
+  const Component = Inject(
+    {
+      foo: FooContext,
+    },
+    (props: { foo: string }) => <div>{props.foo}</div>,
+    { [INLINE_WRAPPED_COMPONENT]: true } as any
+  );
+  const renderer = TestRenderer.create(<Component />);
+
+  expect(renderer.root.findAllByType(Component.WrappedComponent).length).toBe(0);
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
+
+it('Inlined components are rendered as elements when they declare defaultProps', () => {
+  const Wrapped = (props: { foo: string, bar?: string }) => <div>{props.foo}{props.bar}</div>;
+  (Wrapped as React.SFC<{ foo: string, bar?: string }>).defaultProps = { bar: "bar" };
+  const Component = Inject(
+    {
+      foo: FooContext,
+    },
+    Wrapped,
+    { [INLINE_WRAPPED_COMPONENT]: true } as any
+  );
+  const renderer = TestRenderer.create(<Component />);
+
+  expect(renderer.root.findAllByType(Wrapped).length).toBe(1);
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
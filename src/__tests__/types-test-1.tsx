@@ -0,0 +1,87 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// The fixtures are compiled next to this file, so that they can import react-injectable from
+// ../index and the React types resolve from node_modules.
+const fixtureName = path.join(__dirname, "types-fixture.tsx");
+
+// Returns the type errors in the fixture, with the positions removed.
+function typeErrors(source: string): string[] {
+  const options: ts.CompilerOptions = {
+    jsx: ts.JsxEmit.React,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    esModuleInterop: true,
+    noImplicitAny: true,
+    skipLibCheck: true,
+    noEmit: true,
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, onError) => fileName === fixtureName ?
+    ts.createSourceFile(fileName, source, languageVersion, true) :
+    getSourceFile.call(host, fileName, languageVersion, onError);
+  const program = ts.createProgram([fixtureName], options, host);
+  return ts.getPreEmitDiagnostics(program, program.getSourceFile(fixtureName))
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n").split("\n")[0]);
+}
+
+const contexts = `
+import * as React from "react";
+import { Inject, InjectWith, Guard, Injectable, Injected, InjectionScope, legacyContext, useInjected, useInjectedGuarded } from "../index";
+
+const UserContext = React.createContext<string>("anonymous");
+const legacyUser = legacyContext<string>("user", () => null);
+
+class Component extends React.Component<{ user: string, ownerId: string }, {}> {
+}
+`;
+
+it('InjectWith accepts contexts', () => {
+  expect(typeErrors(contexts + `
+export const Example = InjectWith({ user: UserContext }, (values) => ({ user: values.user }), Component);
+`)).toEqual([]);
+});
+
+it('InjectWith rejects legacy contexts and guarded sources', () => {
+  expect(typeErrors(contexts + `
+export const Legacy = InjectWith({ user: legacyUser }, (values) => ({ user: values.user }), Component);
+export const Guarded = InjectWith({ user: Guard(UserContext, (user) => user !== "") }, (values) => ({ user: values.user }), Component);
+`)).toMatchSnapshot();
+});
+
+it('Hooks and render props accept contexts and guarded contexts', () => {
+  expect(typeErrors(contexts + `
+export function useUser() {
+  return useInjected({ user: UserContext }).user + useInjectedGuarded({ user: Guard(UserContext, (user) => user !== "") }).user;
+}
+export const Example = <Injected contexts={{ user: UserContext }}>{(values) => values.user}</Injected>;
+`)).toEqual([]);
+});
+
+it('Hooks and render props reject legacy contexts', () => {
+  expect(typeErrors(contexts + `
+export function useLegacyUser() {
+  return useInjected({ user: legacyUser });
+}
+export function useGuardedLegacyUser() {
+  return useInjectedGuarded({ user: Guard(legacyUser, (user) => user !== "") });
+}
+export const Example = <Injected contexts={{ user: legacyUser }}>{() => null}</Injected>;
+`)).toMatchSnapshot();
+});
+
+it('Injectable returns the decorated class type and rejects guarded sources', () => {
+  expect(typeErrors(contexts + `
+export const Decorated: typeof Component = Injectable({ user: UserContext, legacy: legacyUser })(Component);
+export const Guarded = Injectable({ user: Guard(UserContext, (user) => user !== "") });
+`)).toMatchSnapshot();
+});
+
+it('InjectionScope rejects override values of the wrong type', () => {
+  expect(typeErrors(contexts + `
+const Profile = Inject({ user: UserContext }, Component);
+export const Valid = <InjectionScope overrides={[[UserContext, "preview"], [Profile, { user: "preview" }]]} />;
+export const WrongContextValue = <InjectionScope overrides={[[UserContext, 5]]} />;
+export const WrongComponentValue = <InjectionScope overrides={[[Profile, { user: 5 }]]} />;
+`)).toMatchSnapshot();
+});
@@ -0,0 +1,58 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { useInjectedGuarded } from '../index';
+
+const FooContext = React.createContext<string | undefined>(undefined);
+const BarContext = React.createContext<string | undefined>(undefined);
+
+const Component = (props: { baz: string }) => {
+  const values = useInjectedGuarded({
+    foo: FooContext,
+    bar: BarContext,
+  });
+  if (values === undefined) {
+    return <>{"missing"}</>;
+  }
+  return (
+    <>
+      {values.foo}
+      {values.bar}
+      {props.baz}
+    </>
+  );
+};
+
+interface DocumentProps {
+  foo: string | undefined;
+  bar: string | undefined;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <BarContext.Provider value={this.props.bar}>
+          <Component baz="baz" />
+        </BarContext.Provider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+it('useInjectedGuarded returns undefined when any value is missing', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo={undefined} bar="bar1" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo1" bar={undefined} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo2" bar="bar2" />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
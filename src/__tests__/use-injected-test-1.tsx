@@ -0,0 +1,49 @@
+import * as React from 'react';
+import * as TestRenderer from 'react-test-renderer';
+import { useInjected } from '../index';
+
+const FooContext = React.createContext<string>("foo");
+const CountContext = React.createContext<number>(0);
+
+const Component = (props: { baz: string }) => {
+  const values = useInjected({
+    foo: FooContext,
+    count: CountContext,
+  });
+  const foo: string = values.foo;
+  const count: number = values.count;
+  return (
+    <>
+      {foo}
+      {count + 1}
+      {props.baz}
+    </>
+  );
+};
+
+interface DocumentProps {
+  foo: string;
+  count: number;
+}
+
+class Document extends React.Component<DocumentProps, {}> {
+  public render() {
+    return (
+      <FooContext.Provider value={this.props.foo}>
+        <CountContext.Provider value={this.props.count}>
+          <Component baz="baz" />
+        </CountContext.Provider>
+      </FooContext.Provider>
+    );
+  }
+}
+
+it('useInjected reads every context in the map', () => {
+  const renderer = TestRenderer.create(<Document foo="foo1" count={1} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+
+  renderer.update(<Document foo="foo2" count={2} />);
+
+  expect(renderer.toJSON()).toMatchSnapshot();
+});
@@ -0,0 +1,133 @@
+import * as ts from "typescript";
+import { formatDiff, runCodemod } from "./codemod";
+
+// The react-injectable-codemod command, which rewrites components that are wrapped in
+// `<Context.Consumer>` render props into `Inject` calls. Everything goes through ts.sys, so the
+// command works offline and doesn't need anything other than TypeScript.
+
+const usage = `Usage: react-injectable-codemod [options] <path...>
+
+Rewrites components whose render body is wrapped in <Context.Consumer> render props into
+Inject({ ... }, Component) calls, adding the injected properties to the props type. Anything
+that can't be transformed safely is reported and left unchanged.
+
+Options:
+  --dry-run          Print a diff of the changes instead of writing them.
+  --project <file>   The tsconfig.json used to resolve types. Defaults to the nearest
+                     tsconfig.json above the current directory.
+  --help             Print this message.
+`;
+
+interface CodemodOptions {
+  dryRun: boolean;
+  project: string | undefined;
+  paths: string[];
+}
+
+// Parses the command line arguments, or returns the message to exit with.
+function parseArguments(args: string[]): CodemodOptions | string {
+  const options: CodemodOptions = { dryRun: false, project: undefined, paths: [] };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--help") {
+      return usage;
+    } else if (args[i] === "--dry-run") {
+      options.dryRun = true;
+    } else if (args[i] === "--project") {
+      if (i + 1 === args.length) {
+        return `--project needs a tsconfig.json path.\n\n${usage}`;
+      }
+      options.project = args[++i];
+    } else if (args[i].charAt(0) === "-") {
+      return `Unknown option ${args[i]}.\n\n${usage}`;
+    } else {
+      options.paths.push(args[i]);
+    }
+  }
+  if (options.paths.length === 0) {
+    return usage;
+  }
+  return options;
+}
+
+// Returns every .tsx file in the paths, skipping node_modules.
+function collectFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    const path = ts.sys.resolvePath(paths[i]);
+    if (ts.sys.directoryExists(path)) {
+      files.push.apply(files, ts.sys.readDirectory(path, [".tsx"], ["**/node_modules/**"], ["**/*"]));
+    } else if (ts.sys.fileExists(path)) {
+      files.push(path);
+    } else {
+      throw new Error(`${paths[i]} does not exist.`);
+    }
+  }
+  return files.filter((file) => !/\.d\.ts$/.test(file));
+}
+
+// Reads the compiler options from the tsconfig.json, so that the context types resolve in the
+// same way as they do when building the project.
+function readCompilerOptions(project: string | undefined): ts.CompilerOptions {
+  const configFile = project === undefined ? ts.findConfigFile(ts.sys.getCurrentDirectory(), ts.sys.fileExists) : project;
+  const defaults: ts.CompilerOptions = {
+    jsx: ts.JsxEmit.React,
+    moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    esModuleInterop: true,
+  };
+  if (configFile === undefined) {
+    return defaults;
+  }
+  const config = ts.readConfigFile(configFile, ts.sys.readFile);
+  if (config.error !== undefined) {
+    throw new Error(ts.flattenDiagnosticMessageText(config.error.messageText, "\n"));
+  }
+  const parsed = ts.parseJsonConfigFileContent(config.config, ts.sys, ts.sys.resolvePath(configFile + "/.."));
+  return parsed.options;
+}
+
+function main(args: string[]): number {
+  const options = parseArguments(args);
+  if (typeof options === "string") {
+    ts.sys.write(options);
+    return options === usage && args.indexOf("--help") !== -1 ? 0 : 1;
+  }
+
+  const files = collectFiles(options.paths);
+  const compilerOptions = readCompilerOptions(options.project);
+  compilerOptions.noEmit = true;
+  const results = runCodemod(ts.createProgram(files, compilerOptions), files);
+
+  let transformedComponents = 0;
+  let transformedFiles = 0;
+  let reported = 0;
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    for (let j = 0; j < result.reports.length; j++) {
+      const report = result.reports[j];
+      console.error(`${report.fileName}:${report.line}:${report.column} - ${report.message}`);
+    }
+    reported += result.reports.length;
+    if (result.output === result.original) {
+      continue;
+    }
+    transformedComponents += result.transformed.length;
+    transformedFiles++;
+    if (options.dryRun) {
+      ts.sys.write(formatDiff(result.fileName, result.original, result.output));
+    } else {
+      ts.sys.writeFile(result.fileName, result.output);
+    }
+  }
+  console.error(
+    `${options.dryRun ? "Would transform" : "Transformed"} ${transformedComponents} component(s) in ` +
+    `${transformedFiles} file(s), and left ${reported} unchanged.`
+  );
+  return 0;
+}
+
+try {
+  ts.sys.exit(main(ts.sys.args));
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  ts.sys.exit(1);
+}
@@ -0,0 +1,851 @@
+import * as ts from "typescript";
+
+// This module holds the transform behind the react-injectable-codemod command, which rewrites
+// components whose render body is wrapped in `<Context.Consumer>` render props into `Inject`
+// calls. It is not part of the public API of react-injectable.
+
+/**
+ * Something that the codemod found but could not transform safely, so it was left unchanged.
+ */
+export interface CodemodReport {
+  fileName: string;
+  /**
+   * The 1-based line of the code that was left unchanged.
+   */
+  line: number;
+  /**
+   * The 1-based column of the code that was left unchanged.
+   */
+  column: number;
+  message: string;
+}
+
+/**
+ * The result of running the codemod over a single file.
+ */
+export interface CodemodFileResult {
+  fileName: string;
+  original: string;
+  /**
+   * The transformed source, which is the same as the original source if nothing was transformed.
+   */
+  output: string;
+  /**
+   * The names of the components that were rewritten into `Inject` calls.
+   */
+  transformed: string[];
+  reports: CodemodReport[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A single `<Context.Consumer>{(value) => ...}</Context.Consumer>` in a chain of consumers.
+interface ConsumerLayer {
+  contextText: string;
+  parameter: ts.ParameterDeclaration;
+  propName: string;
+}
+
+// The consumers that wrap a render body, along with the body of the innermost render prop.
+interface ConsumerChain {
+  layers: ConsumerLayer[];
+  elements: ts.JsxElement[];
+  innermost: ts.Expression | ts.Block;
+}
+
+// A component declaration that the codemod can rewrite, and where its render body is.
+interface ComponentCandidate {
+  statement: ts.Statement;
+  name: string;
+  kind: "class" | "function" | "variable";
+  renderBody: ts.Block | ts.Expression;
+  propsType: ts.TypeNode | undefined;
+  // How the wrapped component reads its properties: "this.props", the name of the props parameter,
+  // or undefined if the parameter is destructured.
+  propsAccess: string | undefined;
+  propsParameter: ts.ParameterDeclaration | undefined;
+}
+
+// Thrown while checking a candidate to report why it can't be transformed.
+class CodemodSkip {
+  constructor(public node: ts.Node, public message: string) {}
+}
+
+/**
+ * Run the codemod over the source files of a program, returning the result for each file. The
+ * files are not written; use the `output` of each result to do so.
+ *
+ * @param program The program containing the files, which is used to infer the context value types.
+ * @param fileNames The files to transform. If omitted, every non-declaration file in the program
+ * that is outside of node_modules is transformed.
+ * @returns The result for each file.
+ */
+export function runCodemod(program: ts.Program, fileNames?: string[]): CodemodFileResult[] {
+  const checker = program.getTypeChecker();
+  const userFiles = program.getSourceFiles().filter((sourceFile) =>
+    !sourceFile.isDeclarationFile && sourceFile.fileName.indexOf("/node_modules/") === -1);
+  const typeUsages = collectTypeUsages(checker, userFiles);
+  const results: CodemodFileResult[] = [];
+  const sourceFiles = fileNames === undefined ? userFiles : fileNames.map((fileName) => {
+    const sourceFile = program.getSourceFile(fileName);
+    if (sourceFile === undefined) {
+      throw new Error(`${fileName} is not part of the program.`);
+    }
+    return sourceFile;
+  });
+  for (let i = 0; i < sourceFiles.length; i++) {
+    results.push(transformSourceFile(checker, sourceFiles[i], typeUsages));
+  }
+  return results;
+}
+
+function transformSourceFile(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  typeUsages: ts.Identifier[]
+): CodemodFileResult {
+  const original = sourceFile.text;
+  const reports: CodemodReport[] = [];
+  const transformed: string[] = [];
+  const handled: ts.Node[] = [];
+  const edits: TextEdit[] = [];
+  const report = (node: ts.Node, message: string) => {
+    const position = ts.getLineAndCharacterOfPosition(sourceFile, node.getStart(sourceFile));
+    reports.push({ fileName: sourceFile.fileName, line: position.line + 1, column: position.character + 1, message });
+  };
+
+  const consumers = findConsumerElements(sourceFile);
+  if (consumers.length === 0) {
+    return { fileName: sourceFile.fileName, original, output: original, transformed, reports };
+  }
+
+  const injectName = resolveInjectName(checker, sourceFile);
+  const statements = sourceFile.statements;
+  for (let i = 0; i < statements.length; i++) {
+    const candidate = findCandidate(statements[i], sourceFile);
+    if (candidate === undefined) {
+      continue;
+    }
+    const root = stripParentheses(candidate.renderBody.kind === ts.SyntaxKind.Block ?
+      singleReturnExpression(candidate.renderBody as ts.Block) :
+      candidate.renderBody as ts.Expression);
+    if (root === undefined || !isConsumerElement(root)) {
+      continue;
+    }
+    handled.push(candidate.statement);
+    try {
+      if (typeof injectName !== "string") {
+        throw new CodemodSkip(root, injectName.message);
+      }
+      edits.push.apply(edits, transformCandidate(checker, sourceFile, candidate, root as ts.JsxElement, injectName, typeUsages));
+      transformed.push(candidate.name);
+    } catch (e) {
+      if (!(e instanceof CodemodSkip)) {
+        throw e;
+      }
+      report(e.node, `${candidate.name} was not transformed, because ${e.message}`);
+    }
+  }
+
+  // Every consumer outside of the components that we looked at is reported, so that nothing
+  // is silently left behind.
+  for (let i = 0; i < consumers.length; i++) {
+    if (!isInside(consumers[i], handled)) {
+      report(consumers[i], `${consumers[i].openingElement.tagName.getText(sourceFile)} was not transformed, because it ` +
+        `is not the whole render body of a component.`);
+    }
+  }
+
+  if (transformed.length > 0 && typeof injectName === "string") {
+    const importEdit = createImportEdit(sourceFile, injectName);
+    if (importEdit !== undefined) {
+      edits.push(importEdit);
+    }
+  }
+  reports.sort((a, b) => a.line - b.line || a.column - b.column);
+  return {
+    fileName: sourceFile.fileName,
+    original,
+    output: applyEdits(original, edits),
+    transformed,
+    reports,
+  };
+}
+
+// Returns every JSX element in the file whose tag is `Something.Consumer`.
+function findConsumerElements(sourceFile: ts.SourceFile): ts.JsxElement[] {
+  const consumers: ts.JsxElement[] = [];
+  const visit = (node: ts.Node) => {
+    if (isConsumerElement(node)) {
+      consumers.push(node as ts.JsxElement);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return consumers;
+}
+
+function isConsumerElement(node: ts.Node): boolean {
+  if (!ts.isJsxElement(node)) {
+    return false;
+  }
+  const tagName = node.openingElement.tagName;
+  return ts.isPropertyAccessExpression(tagName) && tagName.name.text === "Consumer";
+}
+
+function isInside(node: ts.Node, containers: ts.Node[]): boolean {
+  for (let i = 0; i < containers.length; i++) {
+    if (node.pos >= containers[i].pos && node.end <= containers[i].end) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function stripParentheses(expression: ts.Expression | undefined): ts.Expression | undefined {
+  while (expression !== undefined && ts.isParenthesizedExpression(expression)) {
+    expression = expression.expression;
+  }
+  return expression;
+}
+
+// Returns the outermost parenthesized expression around the expression.
+function withParentheses(expression: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(expression.parent)) {
+    expression = expression.parent;
+  }
+  return expression;
+}
+
+function singleReturnExpression(block: ts.Block): ts.Expression | undefined {
+  if (block.statements.length !== 1 || !ts.isReturnStatement(block.statements[0])) {
+    return undefined;
+  }
+  return (block.statements[0] as ts.ReturnStatement).expression;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return node.modifiers !== undefined && node.modifiers.some((modifier) => modifier.kind === kind);
+}
+
+const componentBaseClasses = ["Component", "PureComponent", "React.Component", "React.PureComponent"];
+
+// Returns the component declared by a top-level statement, or undefined if it doesn't declare one.
+function findCandidate(statement: ts.Statement, sourceFile: ts.SourceFile): ComponentCandidate | undefined {
+  if (ts.isClassDeclaration(statement)) {
+    const heritage = statement.heritageClauses === undefined ? undefined :
+      statement.heritageClauses.filter((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)[0];
+    if (heritage === undefined || componentBaseClasses.indexOf(heritage.types[0].expression.getText(sourceFile)) === -1) {
+      return undefined;
+    }
+    const render = statement.members.filter((member) =>
+      ts.isMethodDeclaration(member) && member.name.getText(sourceFile) === "render" && member.body !== undefined)[0] as ts.MethodDeclaration;
+    if (render === undefined) {
+      return undefined;
+    }
+    const typeArguments = heritage.types[0].typeArguments;
+    return {
+      statement,
+      name: statement.name === undefined ? "default" : statement.name.text,
+      kind: "class",
+      renderBody: render.body!,
+      propsType: typeArguments === undefined ? undefined : typeArguments[0],
+      propsAccess: "this.props",
+      propsParameter: undefined,
+    };
+  }
+  if (ts.isFunctionDeclaration(statement) && statement.body !== undefined) {
+    return createFunctionCandidate(statement, statement.name === undefined ? "default" : statement.name.text, "function", statement);
+  }
+  if (ts.isVariableStatement(statement) && statement.declarationList.declarations.length === 1) {
+    const declaration = statement.declarationList.declarations[0];
+    const initializer = declaration.initializer;
+    if (
+      ts.isIdentifier(declaration.name) &&
+      initializer !== undefined &&
+      (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+    ) {
+      return createFunctionCandidate(initializer, declaration.name.text, "variable", statement);
+    }
+  }
+  return undefined;
+}
+
+function createFunctionCandidate(
+  fn: ts.FunctionDeclaration | ts.ArrowFunction | ts.FunctionExpression,
+  name: string,
+  kind: "function" | "variable",
+  statement: ts.Statement
+): ComponentCandidate {
+  const parameter = fn.parameters[0];
+  return {
+    statement,
+    name,
+    kind,
+    renderBody: fn.body!,
+    propsType: parameter === undefined ? undefined : parameter.type,
+    propsAccess: parameter === undefined || !ts.isIdentifier(parameter.name) ? undefined : parameter.name.text,
+    propsParameter: parameter,
+  };
+}
+
+// Walks down a chain of nested consumers, collecting the context and render prop parameter of each.
+function unwrapConsumers(sourceFile: ts.SourceFile, root: ts.JsxElement): ConsumerChain {
+  const layers: ConsumerLayer[] = [];
+  const elements: ts.JsxElement[] = [];
+  let current: ts.Expression | ts.Block = root;
+  while (ts.isJsxElement(current as ts.Node) && isConsumerElement(current)) {
+    const element = current as ts.JsxElement;
+    const children = element.children.filter((child) => !(ts.isJsxText(child) && child.getText(sourceFile).trim() === ""));
+    const child = children[0];
+    if (children.length !== 1 || !ts.isJsxExpression(child) || child.expression === undefined) {
+      throw new CodemodSkip(element, "the consumer's children are not a single render prop");
+    }
+    const renderProp: ts.Expression = stripParentheses(child.expression)!;
+    if (ts.isFunctionExpression(renderProp)) {
+      throw new CodemodSkip(renderProp, "the render prop is a function expression, which has its own `this`");
+    }
+    if (!ts.isArrowFunction(renderProp) || renderProp.parameters.length !== 1) {
+      throw new CodemodSkip(child, "the consumer's render prop is not an arrow function with one parameter");
+    }
+    const parameter: ts.ParameterDeclaration = renderProp.parameters[0];
+    if (!ts.isIdentifier(parameter.name) || parameter.initializer !== undefined || parameter.dotDotDotToken !== undefined) {
+      throw new CodemodSkip(parameter, "the render prop's parameter is destructured or has a default value");
+    }
+    const context = (element.openingElement.tagName as ts.PropertyAccessExpression).expression;
+    if (!isEntityName(context)) {
+      throw new CodemodSkip(context, "the context is not a plain name");
+    }
+    if (element.openingElement.attributes.properties.length > 0) {
+      throw new CodemodSkip(element.openingElement, "the consumer has attributes");
+    }
+    layers.push({ contextText: context.getText(sourceFile), parameter, propName: parameter.name.text });
+    elements.push(element);
+
+    const body: ts.ConciseBody = renderProp.body;
+    const expression = ts.isBlock(body) ? singleReturnExpression(body) : body;
+    const next = stripParentheses(expression);
+    current = next !== undefined && isConsumerElement(next) ? next : body;
+  }
+  return { layers, elements, innermost: current };
+}
+
+function isEntityName(expression: ts.Expression): boolean {
+  if (ts.isIdentifier(expression)) {
+    return true;
+  }
+  return ts.isPropertyAccessExpression(expression) && isEntityName(expression.expression);
+}
+
+// Returns the edits that rewrite a component into an Inject call, or throws CodemodSkip.
+function transformCandidate(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  candidate: ComponentCandidate,
+  root: ts.JsxElement,
+  injectName: string,
+  typeUsages: ts.Identifier[]
+): TextEdit[] {
+  const chain = unwrapConsumers(sourceFile, root);
+  const statement = candidate.statement;
+  if (statement.decorators !== undefined) {
+    throw new CodemodSkip(statement, "it has decorators");
+  }
+  if ((statement as ts.ClassDeclaration | ts.FunctionDeclaration).typeParameters !== undefined) {
+    throw new CodemodSkip(statement, "it has type parameters, which Inject can't preserve");
+  }
+  if (ts.isVariableStatement(statement) && statement.declarationList.declarations[0].type !== undefined) {
+    throw new CodemodSkip(statement, "its variable has a type annotation, which wouldn't match the injected component");
+  }
+
+  // Each property and context can only be injected once.
+  for (let i = 0; i < chain.layers.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (chain.layers[i].propName === chain.layers[j].propName) {
+        throw new CodemodSkip(chain.layers[i].parameter, `"${chain.layers[i].propName}" is the parameter of more than one consumer`);
+      }
+      if (chain.layers[i].contextText === chain.layers[j].contextText) {
+        throw new CodemodSkip(chain.elements[i], `${chain.layers[i].contextText} is consumed more than once`);
+      }
+    }
+  }
+
+  const propTypes = chain.layers.map((layer) => resolveValueType(checker, layer));
+  const propsEdit = createPropsEdit(checker, sourceFile, candidate, chain, propTypes, typeUsages);
+  checkComponentReferences(checker, sourceFile, candidate, typeUsages);
+
+  const edits: TextEdit[] = [propsEdit];
+  // The innermost render prop body replaces the whole render body, with the render prop
+  // parameters replaced by the injected properties.
+  const replaced = ts.isBlock(chain.innermost) ? candidate.renderBody : withParentheses(root);
+  const innermostText = dedent(sourceFile, rewriteReferences(checker, sourceFile, candidate, chain), chain.innermost, replaced);
+  edits.push({ start: replaced.getStart(sourceFile), end: replaced.end, text: innermostText });
+  if (candidate.kind !== "class" && candidate.propsParameter !== undefined && candidate.propsAccess === undefined) {
+    edits.push(createBindingEdit(sourceFile, candidate.propsParameter, chain));
+  }
+
+  const contextMap = `{ ${chain.layers.map((layer) => `${layer.propName}: ${layer.contextText}`).join(", ")} }`;
+  edits.push.apply(edits, createWrapEdits(sourceFile, candidate, `${injectName}(${contextMap}, `));
+  return edits;
+}
+
+// Returns the type of the value passed to a render prop parameter, as TypeScript source.
+function resolveValueType(checker: ts.TypeChecker, layer: ConsumerLayer): string {
+  if (layer.parameter.type !== undefined) {
+    return layer.parameter.type.getText();
+  }
+  const type = checker.getTypeAtLocation(layer.parameter.name);
+  if ((type.flags & ts.TypeFlags.Any) !== 0) {
+    throw new CodemodSkip(layer.parameter, `the type of "${layer.propName}" can't be inferred (add a type annotation to the parameter)`);
+  }
+  const text = checker.typeToString(type, layer.parameter, ts.TypeFormatFlags.NoTruncation);
+  // TypeScript refers to types that aren't in scope with an import type, which would write the
+  // absolute path of their module into the file.
+  if (text.indexOf("import(") !== -1) {
+    throw new CodemodSkip(layer.parameter, `the type of "${layer.propName}" is not in scope (import it, or add a type annotation to the parameter)`);
+  }
+  return text;
+}
+
+// Returns the edit that adds the injected properties to the component's props type.
+function createPropsEdit(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  candidate: ComponentCandidate,
+  chain: ConsumerChain,
+  propTypes: string[],
+  typeUsages: ts.Identifier[]
+): TextEdit {
+  if (candidate.propsType === undefined) {
+    throw new CodemodSkip(candidate.statement, "it doesn't declare a props type to add the injected properties to");
+  }
+  let container: ts.InterfaceDeclaration | ts.TypeLiteralNode;
+  if (ts.isTypeLiteralNode(candidate.propsType)) {
+    container = candidate.propsType;
+  } else {
+    const declaration = resolvePropsDeclaration(checker, candidate.propsType);
+    if (declaration === undefined || declaration.getSourceFile() !== sourceFile) {
+      throw new CodemodSkip(candidate.propsType, `its props type ${candidate.propsType.getText(sourceFile)} is not an interface or type literal declared in the same file`);
+    }
+    if (isInside(declaration, [candidate.statement])) {
+      throw new CodemodSkip(declaration, "its props type is declared inside the component");
+    }
+    checkSharedProps(checker, declaration, candidate, typeUsages);
+    container = declaration;
+  }
+
+  for (let i = 0; i < container.members.length; i++) {
+    const memberName = container.members[i].name;
+    for (let j = 0; j < chain.layers.length; j++) {
+      if (memberName !== undefined && memberName.getText(sourceFile) === chain.layers[j].propName) {
+        throw new CodemodSkip(chain.layers[j].parameter, `its props type already has a "${chain.layers[j].propName}" property`);
+      }
+    }
+  }
+
+  const members = chain.layers.map((layer, i) => `${layer.propName}: ${propTypes[i]}`);
+  const last = container.members.length === 0 ? undefined : container.members[container.members.length - 1];
+  const lastText = last === undefined ? "" : last.getText(sourceFile);
+  const separator = lastText.charAt(lastText.length - 1) === "," ? "," : ";";
+  const endsWithSeparator = last !== undefined && lastText.charAt(lastText.length - 1) === separator;
+  const position = last === undefined ? container.members.pos : last.end;
+  const closeLine = ts.getLineAndCharacterOfPosition(sourceFile, container.end).line;
+  if (ts.getLineAndCharacterOfPosition(sourceFile, container.members.pos).line === closeLine) {
+    // Single-line types, such as `{ someProp: string }`, stay on a single line.
+    const text = last === undefined ? ` ${members.join(`${separator} `)} ` :
+      (endsWithSeparator ? " " : `${separator} `) + members.join(`${separator} `) + (endsWithSeparator ? separator : "");
+    return { start: position, end: position, text };
+  }
+  const indent = last === undefined ?
+    lineIndent(sourceFile, container.getStart(sourceFile)) + "  " :
+    lineIndent(sourceFile, last.getStart(sourceFile));
+  const text = (last === undefined || endsWithSeparator ? "" : separator) +
+    members.map((member) => `\n${indent}${member}${separator}`).join("");
+  return { start: position, end: position, text };
+}
+
+function resolvePropsDeclaration(checker: ts.TypeChecker, typeNode: ts.TypeNode): ts.InterfaceDeclaration | ts.TypeLiteralNode | undefined {
+  if (!ts.isTypeReferenceNode(typeNode) || typeNode.typeArguments !== undefined) {
+    return undefined;
+  }
+  const symbol = checker.getSymbolAtLocation(typeNode.typeName);
+  if (symbol === undefined || symbol.declarations === undefined || symbol.declarations.length !== 1) {
+    return undefined;
+  }
+  const declaration = symbol.declarations[0];
+  if (ts.isInterfaceDeclaration(declaration) && declaration.heritageClauses === undefined) {
+    return declaration;
+  }
+  if (ts.isTypeAliasDeclaration(declaration) && ts.isTypeLiteralNode(declaration.type)) {
+    return declaration.type;
+  }
+  return undefined;
+}
+
+// Checks that the props type isn't used anywhere else, since the injected properties would then
+// become required there too.
+function checkSharedProps(
+  checker: ts.TypeChecker,
+  declaration: ts.InterfaceDeclaration | ts.TypeLiteralNode,
+  candidate: ComponentCandidate,
+  typeUsages: ts.Identifier[]
+) {
+  const named = ts.isTypeLiteralNode(declaration) ? declaration.parent as ts.TypeAliasDeclaration : declaration;
+  const symbol = checker.getSymbolAtLocation(named.name);
+  for (let i = 0; i < typeUsages.length; i++) {
+    if (resolveSymbol(checker, typeUsages[i]) === symbol && !isInside(typeUsages[i], [candidate.statement])) {
+      const usage = typeUsages[i].getSourceFile();
+      const position = ts.getLineAndCharacterOfPosition(usage, typeUsages[i].getStart(usage));
+      throw new CodemodSkip(candidate.propsType!, `its props type ${named.name.text} is also used at ${usage.fileName}:${position.line + 1}`);
+    }
+  }
+}
+
+// Checks that turning the component declaration into a variable won't break other code.
+function checkComponentReferences(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  candidate: ComponentCandidate,
+  typeUsages: ts.Identifier[]
+) {
+  const declaration = candidate.statement as ts.ClassDeclaration | ts.FunctionDeclaration;
+  if (candidate.kind === "variable" || declaration.name === undefined) {
+    return;
+  }
+  const symbol = checker.getSymbolAtLocation(declaration.name);
+  if (symbol === undefined) {
+    return;
+  }
+  if (candidate.kind === "class") {
+    // The injected component is not a class, so it can't be used as a type or a base class.
+    for (let i = 0; i < typeUsages.length; i++) {
+      if (resolveSymbol(checker, typeUsages[i]) === symbol) {
+        const usage = typeUsages[i].getSourceFile();
+        const position = ts.getLineAndCharacterOfPosition(usage, typeUsages[i].getStart(usage));
+        throw new CodemodSkip(declaration, `it is used as a type or base class at ${usage.fileName}:${position.line + 1}`);
+      }
+    }
+  } else {
+    // Function declarations are hoisted, but the variable that replaces it is not.
+    let earlierUsage: ts.Node | undefined;
+    const visit = (node: ts.Node) => {
+      if (earlierUsage === undefined && node.pos < declaration.pos && ts.isIdentifier(node) && resolveSymbol(checker, node) === symbol) {
+        earlierUsage = node;
+      }
+      if (node.pos < declaration.pos) {
+        ts.forEachChild(node, visit);
+      }
+    };
+    visit(sourceFile);
+    if (earlierUsage !== undefined) {
+      throw new CodemodSkip(earlierUsage, `it is used before it is declared, which only works because function declarations are hoisted`);
+    }
+  }
+}
+
+function resolveSymbol(checker: ts.TypeChecker, node: ts.Node): ts.Symbol | undefined {
+  let symbol = checker.getSymbolAtLocation(node);
+  if (symbol !== undefined && (symbol.flags & ts.SymbolFlags.Alias) !== 0) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol;
+}
+
+// Collects every identifier used as a type or base class in the files, so that the class
+// components that are used that way aren't transformed.
+function collectTypeUsages(checker: ts.TypeChecker, sourceFiles: ts.SourceFile[]): ts.Identifier[] {
+  const usages: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isTypeReferenceNode(node) || ts.isExpressionWithTypeArguments(node)) {
+      const name = ts.isTypeReferenceNode(node) ? node.typeName : node.expression;
+      const identifier = ts.isQualifiedName(name) ? name.right : ts.isPropertyAccessExpression(name) ? name.name : name;
+      if (ts.isIdentifier(identifier)) {
+        usages.push(identifier);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  for (let i = 0; i < sourceFiles.length; i++) {
+    visit(sourceFiles[i]);
+  }
+  return usages;
+}
+
+// Returns the source of the innermost render prop body, with every reference to a render prop
+// parameter replaced by the injected property.
+function rewriteReferences(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  candidate: ComponentCandidate,
+  chain: ConsumerChain
+): string {
+  const innermost = chain.innermost;
+  const parameters = chain.layers.map((layer) => checker.getSymbolAtLocation(layer.parameter.name));
+  const propsSymbol = candidate.propsParameter === undefined || candidate.propsAccess === undefined || candidate.kind === "class" ?
+    undefined :
+    checker.getSymbolAtLocation(candidate.propsParameter.name);
+  const edits: TextEdit[] = [];
+  const start = innermost.getStart(sourceFile);
+  const access = (propName: string) => candidate.propsAccess === undefined ? propName : `${candidate.propsAccess}.${propName}`;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isShorthandPropertyAssignment(node)) {
+      const index = parameters.indexOf(checker.getShorthandAssignmentValueSymbol(node));
+      if (index !== -1 && candidate.propsAccess !== undefined) {
+        edits.push({ start: node.name.getStart(sourceFile) - start, end: node.name.end - start, text: `${node.name.text}: ${access(chain.layers[index].propName)}` });
+      }
+      return;
+    }
+    if (ts.isIdentifier(node) && !isPropertyName(node)) {
+      const symbol = checker.getSymbolAtLocation(node);
+      const index = symbol === undefined ? -1 : parameters.indexOf(symbol);
+      if (index !== -1 && candidate.propsAccess !== undefined) {
+        edits.push({ start: node.getStart(sourceFile) - start, end: node.end - start, text: access(chain.layers[index].propName) });
+      }
+      if (propsSymbol !== undefined && node.text === candidate.propsAccess && symbol !== propsSymbol) {
+        throw new CodemodSkip(node, `"${candidate.propsAccess}" refers to something other than the component's props here`);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(innermost);
+  return applyEdits(innermost.getText(sourceFile), edits);
+}
+
+function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+    (ts.isPropertyAssignment(parent) && parent.name === node) ||
+    (ts.isJsxAttribute(parent) && parent.name === node);
+}
+
+// Returns the edit that adds the injected properties to a destructured props parameter.
+function createBindingEdit(sourceFile: ts.SourceFile, parameter: ts.ParameterDeclaration, chain: ConsumerChain): TextEdit {
+  const pattern = parameter.name;
+  if (!ts.isObjectBindingPattern(pattern) || pattern.elements.some((element) => element.dotDotDotToken !== undefined)) {
+    throw new CodemodSkip(parameter, "its props parameter is destructured with a rest element or as an array");
+  }
+  const names = chain.layers.map((layer) => layer.propName).join(", ");
+  if (pattern.elements.length === 0) {
+    return { start: pattern.getStart(sourceFile), end: pattern.end, text: `{ ${names} }` };
+  }
+  const last = pattern.elements[pattern.elements.length - 1];
+  return { start: last.end, end: last.end, text: `, ${names}` };
+}
+
+// Returns the edits that wrap the component declaration in the Inject call.
+function createWrapEdits(sourceFile: ts.SourceFile, candidate: ComponentCandidate, call: string): TextEdit[] {
+  const statement = candidate.statement;
+  if (ts.isVariableStatement(statement)) {
+    const initializer = statement.declarationList.declarations[0].initializer!;
+    return [
+      { start: initializer.getStart(sourceFile), end: initializer.getStart(sourceFile), text: call },
+      { start: initializer.end, end: initializer.end, text: ")" },
+    ];
+  }
+  const declaration = statement as ts.ClassDeclaration | ts.FunctionDeclaration;
+  const keyword = declaration.getChildren(sourceFile).filter((child) =>
+    child.kind === ts.SyntaxKind.ClassKeyword || child.kind === ts.SyntaxKind.FunctionKeyword)[0];
+  const isExported = hasModifier(declaration, ts.SyntaxKind.ExportKeyword);
+  const prefix = hasModifier(declaration, ts.SyntaxKind.DefaultKeyword) ? "export default " :
+    `${isExported ? "export " : ""}const ${candidate.name} = `;
+  return [
+    { start: declaration.getStart(sourceFile), end: keyword.getStart(sourceFile), text: prefix + call },
+    { start: declaration.end, end: declaration.end, text: ");" },
+  ];
+}
+
+// Returns the name to call Inject by in the file, or the reason it can't be called.
+function resolveInjectName(checker: ts.TypeChecker, sourceFile: ts.SourceFile): string | { message: string } {
+  const existing = findInjectableImport(sourceFile);
+  if (existing !== undefined && existing.importClause !== undefined && existing.importClause.namedBindings !== undefined) {
+    const bindings = existing.importClause.namedBindings;
+    if (ts.isNamespaceImport(bindings)) {
+      return `${bindings.name.text}.Inject`;
+    }
+    for (let i = 0; i < bindings.elements.length; i++) {
+      const imported = bindings.elements[i].propertyName || bindings.elements[i].name;
+      if (imported.text === "Inject") {
+        return bindings.elements[i].name.text;
+      }
+    }
+  }
+  const conflicting = checker.getSymbolsInScope(sourceFile, ts.SymbolFlags.Value | ts.SymbolFlags.Alias)
+    .filter((symbol) => symbol.name === "Inject" && symbol.declarations !== undefined &&
+      symbol.declarations.some((declaration) => declaration.getSourceFile() === sourceFile));
+  if (conflicting.length > 0) {
+    return { message: "the file already declares something else named Inject" };
+  }
+  return "Inject";
+}
+
+function findInjectableImport(sourceFile: ts.SourceFile): ts.ImportDeclaration | undefined {
+  return sourceFile.statements.filter((statement) =>
+    ts.isImportDeclaration(statement) &&
+    ts.isStringLiteral(statement.moduleSpecifier) &&
+    statement.moduleSpecifier.text === "react-injectable")[0] as ts.ImportDeclaration | undefined;
+}
+
+// Returns the edit that imports Inject, or undefined if it's already imported.
+function createImportEdit(sourceFile: ts.SourceFile, injectName: string): TextEdit | undefined {
+  if (injectName !== "Inject") {
+    return undefined;
+  }
+  const existing = findInjectableImport(sourceFile);
+  if (existing !== undefined && existing.importClause !== undefined) {
+    const bindings = existing.importClause.namedBindings;
+    if (bindings !== undefined && ts.isNamedImports(bindings)) {
+      for (let i = 0; i < bindings.elements.length; i++) {
+        if ((bindings.elements[i].propertyName || bindings.elements[i].name).text === "Inject") {
+          return undefined;
+        }
+      }
+      if (bindings.elements.length > 0) {
+        const last = bindings.elements[bindings.elements.length - 1];
+        return { start: last.end, end: last.end, text: ", Inject" };
+      }
+    }
+  }
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const quote = imports.length > 0 && imports[0].moduleSpecifier.getText(sourceFile).charAt(0) === "'" ? "'" : "\"";
+  const text = `import { Inject } from ${quote}react-injectable${quote};`;
+  if (imports.length === 0) {
+    return { start: 0, end: 0, text: `${text}\n\n` };
+  }
+  const last = imports[imports.length - 1];
+  return { start: last.end, end: last.end, text: `\n${text}` };
+}
+
+// Removes the extra indentation of the lines of code that moved out of the render props.
+function dedent(sourceFile: ts.SourceFile, text: string, from: ts.Node, to: ts.Node): string {
+  const removed = lineIndent(sourceFile, from.getStart(sourceFile)).length - lineIndent(sourceFile, to.getStart(sourceFile)).length;
+  if (removed <= 0) {
+    return text;
+  }
+  const lines = text.split("\n");
+  for (let i = 1; i < lines.length; i++) {
+    const indent = /^[ \t]*/.exec(lines[i])![0].length;
+    lines[i] = lines[i].substring(Math.min(indent, removed));
+  }
+  return lines.join("\n");
+}
+
+function lineIndent(sourceFile: ts.SourceFile, position: number): string {
+  const line = ts.getLineAndCharacterOfPosition(sourceFile, position).line;
+  const lineStart = ts.getPositionOfLineAndCharacter(sourceFile, line, 0);
+  return /^[ \t]*/.exec(sourceFile.text.substring(lineStart, position))![0];
+}
+
+function applyEdits(text: string, edits: TextEdit[]): string {
+  const sorted = edits.slice().sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = text;
+  for (let i = 0; i < sorted.length; i++) {
+    result = result.substring(0, sorted[i].start) + sorted[i].text + result.substring(sorted[i].end);
+  }
+  return result;
+}
+
+/**
+ * Format the difference between the original and transformed source of a file as a unified diff.
+ *
+ * @param fileName The name of the file, used in the diff header.
+ * @param original The original source.
+ * @param output The transformed source.
+ * @returns The unified diff, or an empty string if the sources are the same.
+ */
+export function formatDiff(fileName: string, original: string, output: string): string {
+  if (original === output) {
+    return "";
+  }
+  const a = original.split("\n");
+  const b = output.split("\n");
+  // Only the lines between the common prefix and suffix need to be compared.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+  const lines = diffLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  const all: { kind: " " | "-" | "+"; text: string }[] = [];
+  for (let i = 0; i < prefix; i++) {
+    all.push({ kind: " ", text: a[i] });
+  }
+  all.push.apply(all, lines);
+  for (let i = a.length - suffix; i < a.length; i++) {
+    all.push({ kind: " ", text: a[i] });
+  }
+
+  // Group the changes into hunks with three lines of context.
+  const context = 3;
+  let output_ = `--- ${fileName}\n+++ ${fileName}\n`;
+  let i = 0;
+  while (i < all.length) {
+    if (all[i].kind === " ") {
+      i++;
+      continue;
+    }
+    let start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < all.length && (all[end].kind !== " " || end - lastChange <= context * 2)) {
+      if (all[end].kind !== " ") {
+        lastChange = end;
+      }
+      end++;
+    }
+    end = Math.min(all.length, lastChange + context + 1);
+    let oldStart = 1;
+    let newStart = 1;
+    for (let j = 0; j < start; j++) {
+      if (all[j].kind !== "+") {
+        oldStart++;
+      }
+      if (all[j].kind !== "-") {
+        newStart++;
+      }
+    }
+    const hunk = all.slice(start, end);
+    const oldCount = hunk.filter((line) => line.kind !== "+").length;
+    const newCount = hunk.filter((line) => line.kind !== "-").length;
+    output_ += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    output_ += hunk.map((line) => line.kind + line.text).join("\n") + "\n";
+    i = end;
+  }
+  return output_;
+}
+
+// Returns the lines of a and b as unchanged, removed or added lines, using the longest common subsequence.
+function diffLines(a: string[], b: string[]): { kind: " " | "-" | "+"; text: string }[] {
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      lengths[i][j] = i === a.length || j === b.length ? 0 :
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const lines: { kind: " " | "-" | "+"; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: " ", text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ kind: "-", text: a[i] });
+      i++;
+    } else {
+      lines.push({ kind: "+", text: b[j] });
+      j++;
+    }
+  }
+  return lines;
+}
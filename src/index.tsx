@@ -1,7 +1,230 @@
 import * as React from "react";
+import {
+  INJECTION_METADATA, INLINE_WRAPPED_COMPONENT, InjectedPropMetadata, InjectionMetadata, InjectionOverride, InjectionOverridesContext,
+  applyInjectionOverrides, hasContextOverride, readContextOverride, readInjectionMetadata,
+} from "./internal";
+
+export { InjectedPropMetadata, InjectionMetadata } from "./internal";
 
 type Dissoc<O, D extends string> = Pick<O, Exclude<keyof O, D>>;
 type OuterProps<InjectedProps, P> = Dissoc<P, keyof InjectedProps>;
+type DefaultedOuterProps<InjectedProps, P> = OuterProps<InjectedProps, P> & Partial<Pick<P, Extract<keyof InjectedProps, keyof P>>>;
+
+// The statics that React itself reads from components, which must not be copied onto the
+// injected component. This also includes the internals of forwardRef and memo components.
+type ReactStatics =
+  "prototype" | "defaultProps" | "propTypes" | "displayName" | "contextType" | "contextTypes" |
+  "childContextTypes" | "getDefaultProps" | "getDerivedStateFromProps" | "getDerivedStateFromError" |
+  "mixins" | "$$typeof" | "render" | "compare" | "type" | "WrappedComponent" | "__injectionMetadata";
+
+/**
+ * The statics of a component, excluding those that React uses itself.
+ */
+export type NonReactStatics<C> = Pick<C, Exclude<keyof C, ReactStatics>>;
+
+/**
+ * The component returned by the injection functions. Consumers only see the outer properties,
+ * but the non-React statics of the wrapped component are still available, as is the wrapped
+ * component itself through `WrappedComponent`.
+ */
+export type InjectedComponent<OP, C> = React.ComponentType<OP & React.ClassAttributes<React.Component<OP>>> & NonReactStatics<C> & {
+  WrappedComponent: C;
+};
+
+/**
+ * A value that lives outside of React (such as in a store, event emitter or observable), which
+ * can be injected in the same way as a React context. `subscribe` is called when an injected
+ * component mounts, and must call the listener whenever the snapshot changes. It returns either
+ * a function or a subscription object that is used to unsubscribe when the component unmounts.
+ * `getSnapshot` must return the same value until the snapshot actually changes.
+ */
+export interface StoreSource<T> {
+  subscribe(listener: () => void): (() => void) | { unsubscribe(): void };
+  getSnapshot(): T;
+}
+
+/**
+ * An RxJS-style observable, which can be adapted into a store source with `fromObservable`.
+ */
+export interface Subscribable<T> {
+  subscribe(observer: { next: (value: T) => void }): (() => void) | { unsubscribe(): void };
+}
+
+/**
+ * A value from the legacy (pre-16.3) context API, declared with `contextTypes` and
+ * `childContextTypes`. Use `legacyContext` to create these.
+ */
+export interface LegacyContextSource<T> {
+  readonly legacyContextKey: string;
+  readonly validator: React.Validator<any>;
+  // This is never set; it only exists so that TypeScript can infer the value type.
+  readonly __valueType?: T;
+}
+
+/**
+ * A React context or store source, along with the predicate that decides whether its value is
+ * present for guarded injection. Use `Guard` to create these so that the predicate's argument
+ * type is inferred from the context.
+ */
+export interface GuardedSource<T, N extends T, S = React.Context<T> | StoreSource<T> | LegacyContextSource<T>> {
+  source: S;
+  guard: (value: T) => value is N;
+}
+
+/**
+ * An ordered list of React contexts (or store sources) that a property is injected from. The
+ * first value that isn't undefined is injected, so the nearest layer that has a value wins.
+ */
+export type ContextChain = Array<React.Context<any> | StoreSource<any>>;
+
+/**
+ * A map of property names to the React v16 context objects (or store sources, or legacy contexts)
+ * to pull their values from. Each property can also be injected from a chain of contexts, where
+ * the first value that isn't undefined is used. Guarded injection also accepts guarded sources
+ * created with `Guard`.
+ */
+export type ContextMap = {
+  [propName: string]: React.Context<any> | StoreSource<any> | LegacyContextSource<any> | GuardedSource<any, any> | ContextChain
+};
+
+/**
+ * A context map that can be read with hooks (by `useInjected`, `useInjectedGuarded`, `Injected`
+ * and `InjectedGuarded`). This excludes legacy contexts, since they can only be read by class
+ * components.
+ */
+export type HookContextMap = {
+  [propName: string]: React.Context<any> | StoreSource<any> | GuardedSource<any, any, React.Context<any> | StoreSource<any>> | ContextChain
+};
+
+// The value type of a single entry in a context map. This distributes over unions, so the
+// value type of a chain is the union of the value types of its sources.
+type SourceValue<S> = S extends React.Context<infer T> ? T : S extends StoreSource<infer V> ? V :
+  S extends LegacyContextSource<infer L> ? L : S extends GuardedSource<infer G, any> ? G : never;
+
+/**
+ * The values read from a context map, keyed like the map itself.
+ */
+export type InjectedValues<CV> = {
+  [K in keyof CV]: CV[K] extends Array<infer E> ? SourceValue<E> : SourceValue<CV[K]>
+};
+
+/**
+ * The values read from a context map when every value is present, keyed like the map itself.
+ * Values from guarded sources are narrowed by their guard, and all other values exclude undefined.
+ */
+export type GuardedInjectedValues<CV> = {
+  [K in keyof CV]: CV[K] extends GuardedSource<any, infer N> ? N :
+    Exclude<CV[K] extends Array<infer E> ? SourceValue<E> : SourceValue<CV[K]>, undefined>
+};
+
+/**
+ * The properties passed to a fallback component when guarded injection can not
+ * render the wrapped component. These are the properties the consumer provided,
+ * along with the names of the injected properties whose context values were missing.
+ */
+export type InjectFallbackProps<OP, K extends string> = OP & {
+  missingProps: K[];
+};
+
+/**
+ * The properties passed to an error fallback component when the wrapped component throws
+ * while rendering. These are the properties the consumer provided, along with the error, the
+ * values that were injected when it was thrown, and a function that retries rendering the
+ * wrapped component.
+ */
+export type InjectErrorFallbackProps<OP, V> = OP & {
+  error: any;
+  injectedValues: V;
+  reset: () => void;
+};
+
+/**
+ * Describes an error thrown by the wrapped component of an injected component, for reporting.
+ */
+export interface InjectErrorInfo<V> {
+  /**
+   * The display name of the injected component, such as "Inject(Example)".
+   */
+  componentName: string;
+  componentStack: string;
+  /**
+   * The values that were injected when the error was thrown.
+   */
+  injectedValues: V;
+}
+
+/**
+ * Options that control the behaviour of selector-based injection.
+ */
+export interface InjectSelectOptions<SelectedType> {
+  /**
+   * Determines whether a newly selected value is equal to the previously selected value. When
+   * every selected value is equal and the outer properties have not changed, the wrapped component
+   * is not re-rendered. Defaults to a shallow equality comparison.
+   */
+  isEqual?: (previous: SelectedType, next: SelectedType) => boolean;
+}
+
+/**
+ * Describes how to derive a property value from a React context, for use with `InjectSelectMap`.
+ * Use `Select` to create these so that the selector's argument type is inferred from the context.
+ */
+export interface ContextSelector<ContextType, SelectedType> extends InjectSelectOptions<SelectedType> {
+  context: React.Context<ContextType>;
+  selector: (value: ContextType) => SelectedType;
+}
+
+/**
+ * How to decide whether a newly injected value is equal to the previously rendered value. This is
+ * either "is" (the same as `Object.is`), "shallow" (objects whose own properties are identical)
+ * or a custom comparison.
+ */
+export type InjectEquality<T> = "is" | "shallow" | ((previous: T, next: T) => boolean);
+
+/**
+ * Options that control the behaviour of context injection.
+ */
+export interface InjectOptions<V = {}, OP = {}> {
+  /**
+   * If true, an error is raised when the component is rendered without a provider for one of
+   * the injected contexts above it, instead of silently injecting the context's default value.
+   * The error is thrown in development, and logged once with console.error in production.
+   */
+  strict?: boolean;
+  /**
+   * The equality to use for each injected property, keyed like the context map. If this is set,
+   * the wrapped component is only re-rendered when an injected value is not equal to the last
+   * rendered value, or when the outer properties are not shallowly equal to the last rendered
+   * ones. Properties that are omitted use "is". Only `Inject` and `InjectGuarded` support this.
+   * TypeScript can't infer the parameter types of custom comparisons here, so declare them.
+   */
+  isEqual?: { [K in keyof V]?: InjectEquality<V[K]> };
+  /**
+   * What to render instead of the wrapped component if it throws while rendering. This can
+   * either be a React element, or a component that will receive the outer properties, the error,
+   * the injected values and a function to retry rendering. Rendering is also retried when the
+   * injected values change. If this is set, the wrapped component is wrapped in an error boundary.
+   */
+  errorFallback?: React.ReactElement<any> | React.ComponentType<InjectErrorFallbackProps<OP, V>>;
+  /**
+   * Called when the wrapped component throws while rendering, for reporting errors. If this is
+   * set without an error fallback, the error is rethrown to the error boundaries further up.
+   */
+  onError?: (error: any, info: InjectErrorInfo<V>) => void;
+}
+
+/**
+ * Options that control the behaviour of guarded injection.
+ */
+export interface InjectGuardedOptions<OP, K extends string, V = {}> extends InjectOptions<V, OP> {
+  /**
+   * What to render instead of the wrapped component when one or more of the context
+   * values are undefined. This can either be a React element, or a component that will
+   * receive the outer properties and the list of missing property names. If omitted,
+   * nothing is rendered.
+   */
+  fallback?: React.ReactElement<any> | React.ComponentType<InjectFallbackProps<OP, K>>;
+}
 
 // Inline polyfill for Object.assign so we can target ES5.
 let objectAssign: <T, U>(target: T, source: U) => T & U = function() {
@@ -10,264 +233,2486 @@ let objectAssign: <T, U>(target: T, source: U) => T & U = function() {
       s = arguments[i];
       for (var p in s) if (Object.prototype.hasOwnProperty.call(s, p)) t[p] = s[p];
     }
-    return t;
-  };
-  return objectAssign.apply(this, arguments);
-};
+    return t;
+  };
+  return objectAssign.apply(this, arguments);
+};
+
+// Inline polyfill for Object.is so we can target ES5.
+function objectIs(x: any, y: any): boolean {
+  if (x === y) {
+    return x !== 0 || 1 / x === 1 / y;
+  }
+  return x !== x && y !== y;
+}
+
+// Returns true if both values are identical, or are objects whose own properties are identical.
+function shallowEqual(a: any, b: any): boolean {
+  if (objectIs(a, b)) {
+    return true;
+  }
+  if (typeof a !== "object" || a === null || typeof b !== "object" || b === null) {
+    return false;
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+  for (let i = 0; i < keysA.length; i++) {
+    if (!Object.prototype.hasOwnProperty.call(b, keysA[i]) || !objectIs(a[keysA[i]], b[keysA[i]])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// The statics that React itself reads from components (see ReactStatics), along with the
+// properties that all functions have.
+const REACT_STATICS: { [key: string]: boolean } = {
+  prototype: true, defaultProps: true, propTypes: true, displayName: true, contextType: true,
+  contextTypes: true, childContextTypes: true, getDefaultProps: true, getDerivedStateFromProps: true,
+  getDerivedStateFromError: true, mixins: true, $$typeof: true, render: true, compare: true,
+  type: true, WrappedComponent: true, name: true, length: true, caller: true, callee: true,
+  arguments: true, arity: true, [INJECTION_METADATA]: true,
+};
+
+// Copies the non-React statics (including inherited ones) from the source component onto the
+// target component, so that static methods and properties on the wrapped component are still
+// reachable through the injected component.
+function hoistNonReactStatics(target: any, source: any) {
+  while (source && source !== Function.prototype && source !== Object.prototype) {
+    let keys: (string | symbol)[] = Object.getOwnPropertyNames(source);
+    if ((Object as any).getOwnPropertySymbols) {
+      keys = keys.concat((Object as any).getOwnPropertySymbols(source));
+    }
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i] as string;
+      if (REACT_STATICS[key] || Object.prototype.hasOwnProperty.call(target, key)) {
+        continue;
+      }
+      try {
+        Object.defineProperty(target, key, Object.getOwnPropertyDescriptor(source, key)!);
+      } catch (e) {
+        // Some properties can't be redefined, in which case we skip them.
+      }
+    }
+    source = Object.getPrototypeOf(source);
+  }
+}
+
+// Returns the name of the component for use in display names.
+function getDisplayName(Component: React.ComponentType<any>): string {
+  return Component.displayName || (Component as any).name || "Component";
+}
+
+// Names the injected component after the function that created it and the wrapped component,
+// copies over the non-React statics, exposes the wrapped component and records which properties
+// are injected.
+function finalizeInjected(
+  Injected: React.ComponentType<any>,
+  WrappedComponent: React.ComponentType<any>,
+  Name: string,
+  Props: InjectedPropMetadata[]
+): any {
+  hoistNonReactStatics(Injected, WrappedComponent);
+  Injected.displayName = Name + "(" + getDisplayName(WrappedComponent) + ")";
+  (Injected as any).WrappedComponent = WrappedComponent;
+  const metadata: InjectionMetadata = {
+    injector: Name,
+    props: Props,
+  };
+  (Injected as any)[INJECTION_METADATA] = metadata;
+  return Injected;
+}
+
+// Describes an injected property for the injection metadata.
+function describeInjectedProp(
+  propName: string,
+  Context: React.Context<any> | undefined,
+  Guarded: boolean,
+  FallbackContexts?: React.Context<any>[]
+): InjectedPropMetadata {
+  return {
+    propName,
+    context: Context,
+    contextDisplayName: Context === undefined ? undefined : Context.displayName,
+    fallbackContexts: FallbackContexts,
+    guarded: Guarded,
+  };
+}
+
+// Returns true if the entry in a context map is a guarded source created with Guard.
+function isGuardedSource(source: ContextMap[string]): source is GuardedSource<any, any> {
+  return typeof (source as GuardedSource<any, any>).guard === "function";
+}
+
+// Returns true if the entry in a context map is a chain of contexts.
+function isContextChain(source: ContextMap[string]): source is ContextChain {
+  return Array.isArray(source);
+}
+
+// Returns the contexts, store sources and legacy contexts that an entry in a context map reads
+// from, in order.
+function unwrapSources(source: ContextMap[string]): Array<React.Context<any> | StoreSource<any> | LegacyContextSource<any>> {
+  if (isContextChain(source)) {
+    return source;
+  }
+  return [isGuardedSource(source) ? source.source : source];
+}
+
+// Returns the names of the properties whose values are missing, which means they are rejected by
+// their guard, or are undefined if they don't have one. If firstOnly is set, this stops at the
+// first missing value since the caller only needs to know if any are missing.
+function findMissingProps<K extends string>(ContextMap: ContextMap, propNames: K[], values: { [key: string]: any }, firstOnly?: boolean): K[] {
+  const missingProps: K[] = [];
+  for (let i = 0; i < propNames.length; i++) {
+    const source = ContextMap[propNames[i]];
+    if (isGuardedSource(source) ? !source.guard(values[propNames[i]]) : values[propNames[i]] === undefined) {
+      missingProps.push(propNames[i]);
+      if (firstOnly) {
+        break;
+      }
+    }
+  }
+  return missingProps;
+}
+
+// Renders the fallback (if any) for guarded injection when context values are missing.
+function renderGuardedFallback<OP, K extends string>(
+  Options: InjectGuardedOptions<OP, K> | undefined,
+  props: OP,
+  missingProps: K[]
+): React.ReactElement<any> | null {
+  if (Options === undefined || Options.fallback === undefined || Options.fallback === null) {
+    return null;
+  }
+  if (React.isValidElement(Options.fallback)) {
+    return Options.fallback;
+  }
+  const Fallback = Options.fallback as React.ComponentType<InjectFallbackProps<OP, K>>;
+  const fallbackProps = objectAssign(objectAssign({}, props), { missingProps }) as InjectFallbackProps<OP, K>;
+  return (
+    <Fallback {...fallbackProps} />
+  );
+}
+
+// The state of a promise provided to asynchronous injection.
+interface AsyncState {
+  status: "pending" | "resolved" | "rejected";
+  result?: any;
+}
+
+// We target ES5, so the library typings don't include WeakMap, but every environment that
+// React 16 supports provides it.
+declare const WeakMap: {
+  new <K extends object, V>(): { get(key: K): V | undefined; set(key: K, value: V): void };
+};
+
+// The state of each promise, which is cached per promise identity without modifying the promise
+// (which might be frozen, or serialized by the application).
+const asyncStates = new WeakMap<PromiseLike<any>, AsyncState>();
+
+// Returns the state of a promise, starting to track it if this is the first time it has been seen.
+function getAsyncState(promise: PromiseLike<any>): AsyncState {
+  let state = asyncStates.get(promise);
+  if (state === undefined) {
+    const newState: AsyncState = state = { status: "pending" };
+    asyncStates.set(promise, newState);
+    promise.then(
+      (result) => {
+        newState.status = "resolved";
+        newState.result = result;
+      },
+      (error) => {
+        newState.status = "rejected";
+        newState.result = error;
+      });
+  }
+  return state;
+}
+
+// Replaces every promise in the values with its resolved value. If any promise is still pending,
+// this throws it so that the nearest Suspense component shows its fallback, and if any promise
+// was rejected, this throws the error so that it reaches the nearest error boundary.
+function readAsyncValues(propNames: string[], values: { [key: string]: any }) {
+  let pending: PromiseLike<any> | undefined = undefined;
+  for (let i = 0; i < propNames.length; i++) {
+    const value = values[propNames[i]];
+    if (value === null || (typeof value !== "object" && typeof value !== "function") || typeof value.then !== "function") {
+      continue;
+    }
+    // We check every value before suspending, so that all of the promises are tracked at once.
+    const state = getAsyncState(value);
+    if (state.status === "rejected") {
+      throw state.result;
+    } else if (state.status === "resolved") {
+      values[propNames[i]] = state.result;
+    } else if (pending === undefined) {
+      pending = value;
+    }
+  }
+  if (pending !== undefined) {
+    throw pending;
+  }
+}
+
+// Returns true if the entry in a context map is a store source rather than a React context.
+function isStoreSource(source: React.Context<any> | StoreSource<any> | LegacyContextSource<any>): source is StoreSource<any> {
+  return typeof (source as StoreSource<any>).subscribe === "function" && typeof (source as StoreSource<any>).getSnapshot === "function";
+}
+
+// Returns true if the entry in a context map is a legacy context rather than a React context.
+function isLegacyContextSource(source: React.Context<any> | StoreSource<any> | LegacyContextSource<any>): source is LegacyContextSource<any> {
+  return typeof (source as LegacyContextSource<any>).legacyContextKey === "string";
+}
+
+// Returns true if the entry in a context map is a React context, which is read with useContext.
+function isReactContext(source: React.Context<any> | StoreSource<any> | LegacyContextSource<any>): source is React.Context<any> {
+  return !isStoreSource(source) && !isLegacyContextSource(source);
+}
+
+// Unsubscribes using whatever the store source returned from subscribe.
+function unsubscribe(subscription: (() => void) | { unsubscribe(): void }) {
+  if (typeof subscription === "function") {
+    subscription();
+  } else {
+    subscription.unsubscribe();
+  }
+}
+
+// Reads the current snapshot of a store source, and re-renders the component when it changes.
+// The snapshot is read during every render rather than kept in state, so every component that
+// renders in the same pass sees the same snapshot (and never tears). Because we can only subscribe
+// after mounting, we check whether the snapshot changed in between, so no updates are lost.
+function useStoreSnapshot<T>(source: StoreSource<T>): T {
+  const [, setVersion] = React.useState(0);
+  const snapshot = source.getSnapshot();
+  const rendered = React.useRef(snapshot);
+  React.useEffect(() => {
+    rendered.current = snapshot;
+  });
+  React.useEffect(() => {
+    let subscribed = true;
+    const checkForUpdates = () => {
+      if (subscribed && !objectIs(source.getSnapshot(), rendered.current)) {
+        setVersion((version) => version + 1);
+      }
+    };
+    const subscription = source.subscribe(checkForUpdates);
+    checkForUpdates();
+    return () => {
+      subscribed = false;
+      unsubscribe(subscription);
+    };
+  }, [source]);
+  return snapshot;
+}
+
+// Returns true if there is a provider for the context above the fiber. This relies on React's
+// internal fiber structure, since React doesn't expose whether a context value came from a provider.
+function hasProviderAbove(fiber: any, Context: React.Context<any>): boolean {
+  for (let node = fiber.return; node; node = node.return) {
+    // Consumers also refer to their context in development builds, so compare with the provider.
+    if (node.type === Context.Provider) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Returns the overrides that apply to the fiber, which are the value of the nearest
+// InjectionOverridesContext provider above it.
+function readOverridesAbove(fiber: any): InjectionOverride[] {
+  for (let node = fiber.return; node; node = node.return) {
+    if (node.type === InjectionOverridesContext.Provider) {
+      return node.memoizedProps.value;
+    }
+  }
+  return [];
+}
+
+// Describes an injected property that has no provider for its context above the component.
+function formatMissingProvider(componentName: string | undefined, propName: string, contextDisplayName: string | undefined): string {
+  return `${componentName} could not inject "${propName}", because there is no ${contextDisplayName || "Context"}.Provider above it.`;
+}
+
+// The errors that have already been logged in production. The messages name the component and
+// property, so this logs each missing provider once instead of on every render.
+const reportedInjectionErrors: { [message: string]: boolean } = {};
+
+// Throws the error in development, or logs it (once) in production.
+function reportInjectionError(message: string) {
+  if (typeof process !== "undefined" && process.env.NODE_ENV === "production") {
+    if (!Object.prototype.hasOwnProperty.call(reportedInjectionErrors, message)) {
+      reportedInjectionErrors[message] = true;
+      console.error(message);
+    }
+  } else {
+    throw new Error(message);
+  }
+}
+
+interface ProviderCheckProps {
+  injected: React.ComponentType<any>;
+  contextMap: ContextMap;
+  overrides: InjectionOverride[];
+  children?: React.ReactNode;
+}
+
+// Used by strict injection to report injected contexts that have no provider above the component.
+// This is a class component so that it can reach its own fiber.
+class ProviderCheck extends React.Component<ProviderCheckProps, {}> {
+  public render() {
+    const fiber = (this as any)._reactInternalFiber || (this as any)._reactInternals;
+    if (fiber !== undefined) {
+      // Overridden values don't come from the context, so they don't need a provider.
+      const overridden = applyInjectionOverrides(this.props.overrides, this.props.injected, {});
+      for (let propName in this.props.contextMap) {
+        // Store sources live outside of React, so they never have a provider, and legacy contexts
+        // are provided by components rather than providers, so they can't be checked.
+        const contexts = unwrapSources(this.props.contextMap[propName]).filter(isReactContext);
+        if (contexts.length === 0 || Object.prototype.hasOwnProperty.call(overridden, propName)) {
+          continue;
+        }
+        // A chain only needs a provider for one of its contexts, since the others fall back to it.
+        let provided = false;
+        for (let i = 0; i < contexts.length && !provided; i++) {
+          provided = hasContextOverride(this.props.overrides, contexts[i]) || hasProviderAbove(fiber, contexts[i]);
+        }
+        if (!provided) {
+          reportInjectionError(formatMissingProvider(this.props.injected.displayName, propName, contexts[0].displayName));
+        }
+      }
+    }
+    return this.props.children;
+  }
+}
+
+/**
+ * An injected property whose value changed identity since the previous render.
+ */
+export interface InjectionTraceChange {
+  propName: string;
+  previous: any;
+  next: any;
+}
+
+/**
+ * Describes a single render of an injected component, as passed to the injection tracer.
+ */
+export interface InjectionTrace {
+  /**
+   * The display name of the injected component, such as "Inject(Example)".
+   */
+  componentName: string;
+  /**
+   * Whether this is the first render of the component that was traced. There are no changes
+   * on the first render.
+   */
+  firstRender: boolean;
+  /**
+   * The injected properties that changed identity since the previous traced render. If this is
+   * empty, the render was caused by the component's own properties (or its parent) instead.
+   */
+  changes: InjectionTraceChange[];
+  /**
+   * Whether a guard suppressed the render of the wrapped component, because a value was missing.
+   */
+  suppressed: boolean;
+}
+
+/**
+ * A function that is called each time an injected component renders.
+ */
+export type InjectionTracer = (trace: InjectionTrace) => void;
+
+// The current injection tracer. This is checked on every render of an injected component, so
+// when tracing is disabled the cost is that check and a ref (which is never written) per component.
+let injectionTracer: InjectionTracer | undefined;
+
+/**
+ * Sets the function that is called each time a component created by `Inject` (or any of the
+ * other injection functions, including `InjectWith` and `InjectServices`) renders, with the
+ * injected properties that changed since its previous render. This is useful for finding out
+ * which context change caused a component to re-render. Pass undefined to disable tracing, which is the default.
+ * 
+ * @param Tracer The function to call on each render, or undefined.
+ * @returns The previous tracer, so that it can be restored.
+ * 
+ * @example
+ * // Import the setInjectionTracer function.
+ * import { setInjectionTracer } from "react-injectable";
+ * 
+ * it("only re-renders Example when the session changes", () => {
+ *   const traces: InjectionTrace[] = [];
+ *   const previous = setInjectionTracer((trace) => traces.push(trace));
+ *   ...
+ *   setInjectionTracer(previous);
+ *   expect(traces[1].changes.map((change) => change.propName)).toEqual(["session"]);
+ * });
+ */
+export function setInjectionTracer(Tracer: InjectionTracer | undefined): InjectionTracer | undefined {
+  const previous = injectionTracer;
+  injectionTracer = Tracer;
+  return previous;
+}
+
+// Reports a render of an injected component to the tracer, comparing the values with the ones
+// from the previous traced render (which are kept in the ref).
+function traceInjectedRender(
+  Tracer: InjectionTracer,
+  componentName: string,
+  propNames: string[],
+  values: { [key: string]: any },
+  previousValues: { current: { [key: string]: any } | null },
+  suppressed: boolean
+) {
+  const previous = previousValues.current;
+  const changes: InjectionTraceChange[] = [];
+  if (previous !== null) {
+    for (let i = 0; i < propNames.length; i++) {
+      if (!objectIs(previous[propNames[i]], values[propNames[i]])) {
+        changes.push({ propName: propNames[i], previous: previous[propNames[i]], next: values[propNames[i]] });
+      }
+    }
+  }
+  previousValues.current = objectAssign({}, values);
+  Tracer({ componentName, firstRender: previous === null, changes, suppressed });
+}
+
+/**
+ * An injected property that had no provider for its context above the component, as reported
+ * by `InjectionAudit`.
+ */
+export interface MissingProviderReport {
+  /**
+   * The display name of the injected component, such as "Inject(Example)".
+   */
+  componentName: string;
+  propName: string;
+  contextDisplayName: string | undefined;
+  /**
+   * A description of the missing provider, which is the same as the error raised by strict injection.
+   */
+  message: string;
+}
+
+/**
+ * The properties of `InjectionAudit`.
+ */
+export interface InjectionAuditProps {
+  /**
+   * Called with every missing provider that was found. If omitted, each missing provider is
+   * logged with console.error.
+   */
+  onReport?: (missing: MissingProviderReport[]) => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * Audits the injected components underneath it after the first render, and reports every
+ * injected property whose context has no provider above the component (so the context's default
+ * value was injected). This only runs in development, and does nothing in production.
+ * 
+ * @example
+ * // Import the InjectionAudit component.
+ * import { InjectionAudit } from "react-injectable";
+ * 
+ * // Wrap your application (or part of it) in the audit.
+ * function usageExample() {
+ *   return (
+ *     <InjectionAudit>
+ *       <App />
+ *     </InjectionAudit>
+ *   );
+ * }
+ */
+export class InjectionAudit extends React.Component<InjectionAuditProps, {}> {
+  public componentDidMount() {
+    const root = (this as any)._reactInternalFiber || (this as any)._reactInternals;
+    if ((typeof process !== "undefined" && process.env.NODE_ENV === "production") || root === undefined) {
+      return;
+    }
+    const missing: MissingProviderReport[] = [];
+    // Walk every fiber underneath the audit, without recursion so that deep trees are fine.
+    let node = root.child;
+    while (node !== null && node !== undefined) {
+      auditInjectedFiber(node, missing);
+      if (node.child !== null) {
+        node = node.child;
+        continue;
+      }
+      while (node !== root && node.sibling === null) {
+        node = node.return;
+      }
+      if (node === root) {
+        break;
+      }
+      node = node.sibling;
+    }
+    if (missing.length === 0) {
+      return;
+    }
+    if (this.props.onReport !== undefined) {
+      this.props.onReport(missing);
+    } else {
+      for (let i = 0; i < missing.length; i++) {
+        console.error(missing[i].message);
+      }
+    }
+  }
+
+  public render() {
+    return this.props.children;
+  }
+}
+
+// Adds the injected properties of the fiber's component that have no provider above it.
+function auditInjectedFiber(fiber: any, missing: MissingProviderReport[]) {
+  const metadata = readInjectionMetadata(fiber.type);
+  if (metadata === undefined) {
+    return;
+  }
+  // Overridden values don't come from the context, so they don't need a provider (in the same
+  // way as strict injection).
+  const overrides = readOverridesAbove(fiber);
+  const overridden = applyInjectionOverrides(overrides, fiber.type, {});
+  const provided = (context: React.Context<any>) => hasContextOverride(overrides, context) || hasProviderAbove(fiber, context);
+  for (let i = 0; i < metadata.props.length; i++) {
+    const prop = metadata.props[i];
+    if (prop.context === undefined || Object.prototype.hasOwnProperty.call(overridden, prop.propName)) {
+      continue;
+    }
+    // A chain only needs a provider for one of its contexts, since the others fall back to it.
+    const fallbacks = prop.fallbackContexts || [];
+    if (!provided(prop.context) && !fallbacks.some(provided)) {
+      missing.push({
+        componentName: fiber.type.displayName,
+        propName: prop.propName,
+        contextDisplayName: prop.contextDisplayName,
+        message: formatMissingProvider(fiber.type.displayName, prop.propName, prop.contextDisplayName),
+      });
+    }
+  }
+}
+
+interface InjectionErrorBoundaryProps {
+  injected: React.ComponentType<any>;
+  outerProps: { [key: string]: any };
+  values: { [key: string]: any };
+  errorFallback?: React.ReactElement<any> | React.ComponentType<InjectErrorFallbackProps<any, any>>;
+  onError?: (error: any, info: InjectErrorInfo<any>) => void;
+  children?: React.ReactNode;
+}
+
+interface InjectionErrorBoundaryState {
+  failed: boolean;
+  error: any;
+  // The injected values from the last render, so that we can retry when they change.
+  values: { [key: string]: any };
+}
+
+// Catches errors thrown by the wrapped component for the errorFallback and onError options.
+class InjectionErrorBoundary extends React.Component<InjectionErrorBoundaryProps, InjectionErrorBoundaryState> {
+  public state: InjectionErrorBoundaryState = {
+    failed: false,
+    error: undefined,
+    values: this.props.values,
+  };
+
+  public static getDerivedStateFromProps(props: InjectionErrorBoundaryProps, state: InjectionErrorBoundaryState): Partial<InjectionErrorBoundaryState> {
+    if (state.failed && !shallowEqual(state.values, props.values)) {
+      // The injected values have changed since the error, so they might not cause it again.
+      return { failed: false, error: undefined, values: props.values };
+    }
+    return { values: props.values };
+  }
+
+  public static getDerivedStateFromError(error: any): Partial<InjectionErrorBoundaryState> {
+    return { failed: true, error };
+  }
+
+  public componentDidCatch(error: any, info: React.ErrorInfo) {
+    if (this.props.onError !== undefined) {
+      this.props.onError(error, {
+        componentName: this.props.injected.displayName!,
+        componentStack: info.componentStack,
+        injectedValues: this.state.values,
+      });
+    }
+    if (this.props.errorFallback === undefined || this.props.errorFallback === null) {
+      // There is only an onError option, so now that the error has been reported, we pass it on
+      // to the error boundaries further up by throwing it while updating.
+      this.setState(() => {
+        throw error;
+      });
+    }
+  }
+
+  public reset = () => {
+    this.setState({ failed: false, error: undefined });
+  };
+
+  public render() {
+    if (!this.state.failed) {
+      return this.props.children;
+    }
+    const ErrorFallback = this.props.errorFallback;
+    if (ErrorFallback === undefined || ErrorFallback === null) {
+      return null;
+    }
+    if (React.isValidElement(ErrorFallback)) {
+      return ErrorFallback;
+    }
+    const FallbackComponent = ErrorFallback as React.ComponentType<InjectErrorFallbackProps<any, any>>;
+    const fallbackProps = objectAssign(objectAssign({}, this.props.outerProps), {
+      error: this.state.error,
+      injectedValues: this.state.values,
+      reset: this.reset,
+    });
+    return (
+      <FallbackComponent {...fallbackProps} />
+    );
+  }
+}
+
+// Returns the comparison function for each property from the equality options.
+function resolveEquality(
+  propNames: string[],
+  Equality: { [key: string]: InjectEquality<any> | undefined }
+): { [key: string]: (previous: any, next: any) => boolean } {
+  const isEqual: { [key: string]: (previous: any, next: any) => boolean } = {};
+  for (let i = 0; i < propNames.length; i++) {
+    const equality = Equality[propNames[i]];
+    isEqual[propNames[i]] = equality === "shallow" ? shallowEqual : typeof equality === "function" ? equality : objectIs;
+  }
+  return isEqual;
+}
+
+interface LegacyContextReaderProps {
+  children: (values: { [propName: string]: any }) => React.ReactNode;
+}
+
+// Creates a class component that reads the legacy contexts in a context map and passes their
+// values to its children, or returns undefined if the map doesn't have any legacy contexts.
+function createLegacyContextReader(ContextMap: ContextMap): React.ComponentClass<LegacyContextReaderProps> | undefined {
+  const contextTypes: React.ValidationMap<any> = {};
+  const legacyContextKeys: { [propName: string]: string } = {};
+  let hasLegacyContexts = false;
+  for (let propName in ContextMap) {
+    // Chains only hold contexts and store sources, so they never read legacy contexts.
+    const entry = ContextMap[propName];
+    const source = isContextChain(entry) ? undefined : isGuardedSource(entry) ? entry.source : entry;
+    if (source !== undefined && isLegacyContextSource(source)) {
+      contextTypes[source.legacyContextKey] = source.validator;
+      legacyContextKeys[propName] = source.legacyContextKey;
+      hasLegacyContexts = true;
+    }
+  }
+  if (!hasLegacyContexts) {
+    return undefined;
+  }
+
+  class LegacyContextReader extends React.Component<LegacyContextReaderProps, {}> {
+    public static contextTypes = contextTypes;
+
+    public render() {
+      const values: { [propName: string]: any } = {};
+      for (let propName in legacyContextKeys) {
+        values[propName] = this.context[legacyContextKeys[propName]];
+      }
+      return this.props.children(values);
+    }
+  }
+  return LegacyContextReader;
+}
+
+// Creates the single wrapper component used by all of the context map based injection
+// functions. Every context is read with hooks inside one forwardRef component, so no matter
+// how many properties are injected, there is only one extra component in the tree.
+function injectContextMap(
+  Name: string,
+  ContextMap: ContextMap,
+  WrappedComponent: React.ComponentType<any>,
+  Guarded: boolean,
+  Async: boolean,
+  Defaults: boolean,
+  Options?: InjectGuardedOptions<any, string, any>
+): any {
+  const propNames = Object.keys(ContextMap);
+  const hasFallback = Options !== undefined && Options.fallback !== undefined && Options.fallback !== null;
+  const strict = Options !== undefined && Options.strict === true;
+  const isEqual = Options === undefined || Options.isEqual === undefined ? undefined : resolveEquality(propNames, Options.isEqual);
+  const hasErrorBoundary = Options !== undefined && (Options.errorFallback !== undefined || Options.onError !== undefined);
+
+  // Legacy contexts can only be read by class components, so if the map has any, the rest of the
+  // render happens inside a class component that declares them in its contextTypes.
+  const LegacyContextReader = createLegacyContextReader(ContextMap);
+
+  // The Inject transformer marks calls whose wrapped component is a function component
+  // that is safe to call directly, which removes the extra component from the tree. Its hooks
+  // can't be called from inside the legacy context reader, so that still renders an element.
+  const inline = Options !== undefined && (Options as any)[INLINE_WRAPPED_COMPONENT] === true && LegacyContextReader === undefined;
+  let warnedInlineRef = false;
+
+  function renderWrapped(props: any, ref: React.Ref<any> | undefined, values: { [key: string]: any }) {
+    if (Guarded) {
+      // We only need every missing property name if we're going to pass them to the fallback.
+      const missingProps = findMissingProps(ContextMap, propNames, values, !hasFallback);
+      if (missingProps.length > 0) {
+        // One or more values are undefined, do not render wrapped component.
+        return renderGuardedFallback(Options, props, missingProps);
+      }
+    }
+    if (hasErrorBoundary) {
+      return (
+        <InjectionErrorBoundary
+          injected={Injected}
+          outerProps={props}
+          values={values}
+          errorFallback={Options!.errorFallback}
+          onError={Options!.onError}
+        >
+          {renderTarget(props, ref, values)}
+        </InjectionErrorBoundary>
+      );
+    }
+    return renderTarget(props, ref, values);
+  }
+
+  function renderTarget(props: any, ref: React.Ref<any> | undefined, values: { [key: string]: any }) {
+    if (isEqual !== undefined) {
+      return (
+        <SelectGate
+          component={WrappedComponent}
+          forwardedRef={ref}
+          outerProps={props}
+          selected={values}
+          isEqual={isEqual}
+        />
+      );
+    }
+    const injectedProps = objectAssign({}, props);
+    for (let i = 0; i < propNames.length; i++) {
+      // When the injected values are defaults, an explicitly passed property wins unless it is
+      // undefined (in the same way as defaultProps). Otherwise, any stray injected properties
+      // (which the types don't allow) are always replaced by the injected values.
+      if (!Defaults || injectedProps[propNames[i]] === undefined) {
+        injectedProps[propNames[i]] = values[propNames[i]];
+      }
+    }
+    // React applies defaultProps and checks propTypes and contextTypes when it renders a function
+    // component, so a named component that declares them is still rendered as an element.
+    const Wrapped = WrappedComponent as React.SFC<any>;
+    if (inline && Wrapped.defaultProps === undefined && Wrapped.propTypes === undefined && Wrapped.contextTypes === undefined) {
+      if (ref !== null && ref !== undefined && !warnedInlineRef && (typeof process === "undefined" || process.env.NODE_ENV !== "production")) {
+        // Match the warning that React gives when the element is rendered with the ref.
+        warnedInlineRef = true;
+        console.error("Warning: Function components cannot be given refs. Attempts to access this ref will fail. Did you mean to use React.forwardRef()?");
+      }
+      return Wrapped(injectedProps);
+    }
+    return (
+      <WrappedComponent ref={ref} {...injectedProps} />
+    );
+  }
+
+  function renderInjected(
+    props: any,
+    ref: React.Ref<any> | undefined,
+    values: { [key: string]: any },
+    overrides: InjectionOverride[],
+    traced: { current: { [key: string]: any } | null }
+  ) {
+    applyInjectionOverrides(overrides, Injected, values);
+    if (Async) {
+      readAsyncValues(propNames, values);
+    }
+    if (injectionTracer !== undefined) {
+      const suppressed = Guarded && findMissingProps(ContextMap, propNames, values, true).length > 0;
+      traceInjectedRender(injectionTracer, Injected.displayName, propNames, values, traced, suppressed);
+    }
+    if (strict) {
+      return (
+        <ProviderCheck injected={Injected} contextMap={ContextMap} overrides={overrides}>
+          {renderWrapped(props, ref, values)}
+        </ProviderCheck>
+      );
+    }
+    return renderWrapped(props, ref, values);
+  }
+
+  // forwardRef returns an exotic component type that TypeScript can't relate back to the
+  // outer properties, so we have to go through "any" here.
+  const Injected = React.forwardRef<any, any>((props: any, ref?: React.Ref<any>) => {
+    const overrides = React.useContext(InjectionOverridesContext);
+    const values = readContextMap(ContextMap, true, overrides);
+    const traced = React.useRef<{ [key: string]: any } | null>(null);
+    if (LegacyContextReader !== undefined) {
+      return (
+        <LegacyContextReader>
+          {(legacyValues) => renderInjected(props, ref, objectAssign(values, legacyValues), overrides, traced)}
+        </LegacyContextReader>
+      );
+    }
+    return renderInjected(props, ref, values, overrides, traced);
+  }) as React.ComponentType<any>;
+  return finalizeInjected(Injected, WrappedComponent, Name, propNames.map((propName) => {
+    const contexts = unwrapSources(ContextMap[propName]).filter(isReactContext);
+    return describeInjectedProp(propName, contexts[0], Guarded, isContextChain(ContextMap[propName]) ? contexts.slice(1) : undefined);
+  }));
+}
+
+
+/**
+ * Inject the value of a single React context into a component's property at runtime,
+ * while ensuring that users of the component can not override or even see the
+ * property being injected into.
+ * 
+ * This allows components to automatically map properties to context values,
+ * while ensuring consumers of the component don't see properties that they
+ * don't need to provide a value for.
+ * 
+ * @param Context The React v16 context object to pull the value from.
+ * @param PropName The name of the property to inject the value into.
+ * @param WrappedComponent The component that is being wrapped.
+ * @param Options Optional settings, such as whether a provider must be present.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectSingle function.
+ * import { InjectSingle } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere).
+ * export const MyContext = React.createContext<SomeType>(...);
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   injectedProp: SomeType;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectSingle(
+ *   MyContext, 
+ *   "injectedProp", 
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function InjectSingle<K extends string, ContextType, ComponentProps extends { [KK in K]: ContextType }, C>(
+  Context: React.Context<ContextType>,
+  PropName: K,
+  Component: C & React.ComponentType<ComponentProps & React.ClassAttributes<React.Component<ComponentProps>>>,
+  Options?: InjectOptions
+): InjectedComponent<OuterProps<{ [KK in K]: ContextType }, ComponentProps>, C> {
+  const SingleContextMap: ContextMap = { [PropName]: Context };
+  return injectContextMap("InjectSingle", SingleContextMap, Component, false, false, false, Options);
+}
+
+/**
+ * Inject the value of a single React context into a component's property at runtime,
+ * where that value might be undefined, while ensuring that users of the component can
+ * not override or even see the property being injected into.
+ * 
+ * This allows components to automatically map properties to context values,
+ * while ensuring consumers of the component don't see properties that they
+ * don't need to provide a value for.
+ * 
+ * If the context value is undefined, the component is not instantiated at all, and the
+ * fallback from the options is rendered instead (or nothing if there is no fallback). The
+ * component prop being injected into should NOT accept undefined as a value.
+ * 
+ * To treat other values (such as null or a loading state) as missing, pass a context wrapped
+ * with `Guard` and a predicate instead. If the predicate is a type guard, the property is
+ * injected with the narrowed type.
+ * 
+ * @param Context The React v16 context object to pull the value from, or a guarded source created with `Guard`.
+ * @param PropName The name of the property to inject the value into.
+ * @param WrappedComponent The component that is being wrapped.
+ * @param Options Optional settings, such as the fallback to render when the value is undefined, or
+ * whether a provider must be present.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectSingle function.
+ * import { InjectSingle } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere). In this case the
+ * // context is initialised with undefined (no argument) so the context type
+ * // is actually React.Context<string | undefined>.
+ * export const MyContext = React.createContext<string>();
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   requiredInjectedProp: string;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectSingleGuarded(
+ *   MyContext, 
+ *   "requiredInjectedProp", 
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function InjectSingleGuarded<K extends string, ContextType, ComponentProps extends { [KK in K]: ContextType }, C>(
+  Context: React.Context<ContextType | undefined> | GuardedSource<any, ContextType>,
+  PropName: K,
+  Component: C & React.ComponentType<ComponentProps & React.ClassAttributes<React.Component<ComponentProps>>>,
+  Options?: InjectGuardedOptions<OuterProps<{ [KK in K]: ContextType }, ComponentProps>, K>
+): InjectedComponent<OuterProps<{ [KK in K]: ContextType }, ComponentProps>, C> {
+  const SingleContextMap: ContextMap = { [PropName]: Context };
+  return injectContextMap("InjectSingleGuarded", SingleContextMap, Component, true, false, false, Options);
+}
+
+/**
+ * Inject the value of multiple React contexts into a set of component properties at runtime,
+ * while ensuring that users of the component can not override or even see the
+ * properties being injected into.
+ * 
+ * This allows components to automatically map properties to context values,
+ * while ensuring consumers of the component don't see properties that they
+ * don't need to provide a value for.
+ * 
+ * Values that live outside of React can be injected by putting a store source (an object with
+ * `subscribe` and `getSnapshot`) in the map instead of a context. The component subscribes when
+ * it mounts, re-renders when the snapshot changes, and unsubscribes when it unmounts.
+ * 
+ * To inject the nearest of several layered contexts, put an array of contexts in the map, such
+ * as `{ theme: [WidgetTheme, PageTheme, AppTheme] }`. The first value that isn't undefined is
+ * injected, and the property type must accept the value type of every context in the chain.
+ * 
+ * By default, the wrapped component re-renders whenever the injected component does. Set
+ * `isEqual` in the options to only re-render it when an injected value or the outer properties
+ * have changed, comparing each injected value with "is", "shallow" or a custom function.
+ * 
+ * Set `errorFallback` in the options to render a fallback instead of the wrapped component if
+ * it throws while rendering, and `onError` to report those errors along with the injected values.
+ * 
+ * @param ContextMap A map of properties to React v16 context objects or store sources.
+ * @param Component The component to inject properties into.
+ * @param Options Optional settings, such as whether providers must be present, or how to compare
+ * injected values to skip re-renders.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the Inject function.
+ * import { Inject } from "react-injectable";
+ * 
+ * // The React v16 contexts (can be imported from elsewhere).
+ * export const MyContext1 = React.createContext<SomeType>(...);
+ * export const MyContext2 = React.createContext<string>("hello");
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   injectedProp: SomeType;
+ *   anotherInjectedProp: string;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = Inject(
+ *   {
+ *     injectedProp: MyContext1,
+ *     anotherInjectedProp: MyContext2,
+ *   },
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function Inject<CV extends { [KX in keyof P]?: React.Context<P[KX]> | StoreSource<P[KX]> | LegacyContextSource<P[KX]> | Array<React.Context<P[KX]> | StoreSource<P[KX]>> }, P extends { [KK in keyof CV]: P[keyof CV] }, C>(
+  ContextMap: CV,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>,
+  Options?: InjectOptions<InjectedValues<CV>, OuterProps<CV, P>>
+): InjectedComponent<OuterProps<CV, P>, C> {
+  return injectContextMap("Inject", ContextMap as any as ContextMap, WrappedComponent, false, false, false, Options);
+}
+
+/**
+ * Inject the value of multiple React contexts into a set of component properties at runtime,
+ * where each context may provide either a value or a promise (or any other thenable) of a
+ * value, while ensuring that users of the component can not override or even see the
+ * properties being injected into.
+ * 
+ * The wrapped component always receives the resolved values. While any of the promises are
+ * pending, the component suspends, so there must be a `React.Suspense` component above it. If
+ * any of the promises are rejected, the error is thrown to the nearest error boundary. The
+ * state of each promise is cached on the promise, so re-rendering with the same promise does
+ * not suspend again.
+ * 
+ * @param ContextMap A map of properties to React v16 context objects or store sources.
+ * @param Component The component to inject properties into.
+ * @param Options Optional settings, such as whether providers must be present.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectAsync function.
+ * import { InjectAsync } from "react-injectable";
+ * 
+ * // The React v16 contexts (can be imported from elsewhere).
+ * export const ConfigContext = React.createContext<Config | Promise<Config>>(fetchConfig());
+ * 
+ * // The component properties (include injected properties here). Note that
+ * // config is the resolved type, not a promise.
+ * interface ExampleProps {
+ *   someProp: string;
+ *   config: Config;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectAsync(
+ *   {
+ *     config: ConfigContext,
+ *   },
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <React.Suspense fallback={<Spinner />}>
+ *       <Example 
+ *         someProp="hello"
+ *       />
+ *     </React.Suspense>
+ *   );
+ * }
+ */
+export function InjectAsync<CV extends { [KX in keyof P]?: React.Context<P[KX] | PromiseLike<P[KX]>> | StoreSource<P[KX] | PromiseLike<P[KX]>> }, P extends { [KK in keyof CV]: P[keyof CV] }, C>(
+  ContextMap: CV,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>,
+  Options?: InjectOptions
+): InjectedComponent<OuterProps<CV, P>, C> {
+  return injectContextMap("InjectAsync", ContextMap as any as ContextMap, WrappedComponent, false, true, false, Options);
+}
+
+/**
+ * Inject the value of multiple React contexts into a set of component properties at runtime,
+ * in the same way as `Inject`, but require that there is a provider for every context above
+ * the component.
+ * 
+ * If there is no provider for one of the contexts, an error naming the component, the property
+ * and the context's displayName is thrown (or logged with console.error in production), instead
+ * of silently injecting the default value of the context. This is the same as passing
+ * `{ strict: true }` in the options to `Inject`.
+ * 
+ * @param ContextMap A map of properties to React v16 context objects or store sources.
+ * @param Component The component to inject properties into.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectRequired function.
+ * import { InjectRequired } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere). Set the displayName so
+ * // that errors can name the context.
+ * export const SessionContext = React.createContext<Session>(defaultSession);
+ * SessionContext.displayName = "SessionContext";
+ * 
+ * // The component declaration.
+ * export const Example = InjectRequired(
+ *   {
+ *     session: SessionContext,
+ *   },
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   // Throws, because there is no SessionContext.Provider above Example.
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function InjectRequired<CV extends { [KX in keyof P]?: React.Context<P[KX]> | StoreSource<P[KX]> | LegacyContextSource<P[KX]> | Array<React.Context<P[KX]> | StoreSource<P[KX]>> }, P extends { [KK in keyof CV]: P[keyof CV] }, C>(
+  ContextMap: CV,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
+): InjectedComponent<OuterProps<CV, P>, C> {
+  return injectContextMap("InjectRequired", ContextMap as any as ContextMap, WrappedComponent, false, false, false, { strict: true });
+}
+
+/**
+ * Inject the value of multiple React contexts into a set of component properties at runtime,
+ * using the context values as defaults that users of the component may explicitly override.
+ * 
+ * Unlike `Inject`, the injected properties remain on the component's properties as optional
+ * properties. If a consumer passes a value for one of them (other than undefined), that value
+ * is used instead of the context value.
+ * 
+ * @param ContextMap A map of properties to React v16 context objects or store sources.
+ * @param Component The component to inject properties into.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectDefaults function.
+ * import { InjectDefaults } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere).
+ * export const ThemeContext = React.createContext<Theme>(lightTheme);
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   theme: Theme;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectDefaults(
+ *   {
+ *     theme: ThemeContext,
+ *   },
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <>
+ *       <Example someProp="uses the theme from ThemeContext" />
+ *       <Example someProp="always uses the dark theme" theme={darkTheme} />
+ *     </>
+ *   );
+ * }
+ */
+export function InjectDefaults<CV extends { [KX in keyof P]?: React.Context<P[KX]> | StoreSource<P[KX]> | LegacyContextSource<P[KX]> | Array<React.Context<P[KX]> | StoreSource<P[KX]>> }, P extends { [KK in keyof CV]: P[keyof CV] }, C>(
+  ContextMap: CV,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
+): InjectedComponent<DefaultedOuterProps<CV, P>, C> {
+  return injectContextMap("InjectDefaults", ContextMap as any as ContextMap, WrappedComponent, false, false, true);
+}
+
+/**
+ * Inject the value of multiple React contexts into a set of component properties at runtime,
+ * where the context values might be undefined, while ensuring that users of the component can 
+ * not override or even see the properties being injected into.
+ * 
+ * This allows components to automatically map properties to context values,
+ * while ensuring consumers of the component don't see properties that they
+ * don't need to provide a value for.
+ * 
+ * If any of the context values are undefined, the component is not instantiated at all,
+ * and the fallback from the options is rendered once instead (or nothing if there is no
+ * fallback). The component props being injected into should NOT accept undefined values.
+ * A property injected from a chain of contexts is only missing if every context in the chain
+ * is undefined.
+ * 
+ * To treat other values (such as null or a loading state) as missing, wrap the context with
+ * `Guard` and a predicate. If the predicate is a type guard, the property is injected with the
+ * narrowed type.
+ * 
+ * @param ContextMap A map of properties to React v16 context objects or store sources.
+ * @param Component The component to inject properties into.
+ * @param Options Optional settings, such as the fallback to render when values are undefined,
+ * whether providers must be present, or how to compare injected values to skip re-renders.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the Inject function.
+ * import { Inject } from "react-injectable";
+ * 
+ * // The React v16 contexts (can be imported from elsewhere). Because createContext
+ * // is used with no arguments here, the resulting types are React.Context<SomeType | undefined>
+ * // and React.Context<string | undefined> respectively.
+ * export const MyContext1 = React.createContext<SomeType>();
+ * export const MyContext2 = React.createContext<string>();
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   injectedProp: SomeType;
+ *   anotherInjectedProp: string;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectGuarded(
+ *   {
+ *     injectedProp: MyContext1,
+ *     anotherInjectedProp: MyContext2,
+ *   },
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function InjectGuarded<CV extends { [KX in keyof P]?: React.Context<P[KX] | undefined> | StoreSource<P[KX] | undefined> | LegacyContextSource<P[KX] | undefined> | GuardedSource<any, P[KX]> | Array<React.Context<P[KX] | undefined> | StoreSource<P[KX] | undefined>> }, P extends { [KK in keyof CV]: P[keyof CV] }, C>(
+  ContextMap: CV,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>,
+  Options?: InjectGuardedOptions<OuterProps<CV, P>, keyof CV, GuardedInjectedValues<CV>>
+): InjectedComponent<OuterProps<CV, P>, C> {
+  return injectContextMap("InjectGuarded", ContextMap as any as ContextMap, WrappedComponent, true, false, false, Options);
+}
+
+/**
+ * The type of a class component after it has been decorated with `Injectable`. TypeScript
+ * doesn't let decorators change the type of a class, so cast the class to this type to export
+ * it with the injected properties removed.
+ * 
+ * @example
+ * const ExampleContexts = { injectedProp: MyContext };
+ * 
+ * @Injectable(ExampleContexts)
+ * class ExampleComponent extends React.Component<ExampleProps, {}> {
+ * }
+ * 
+ * export const Example = ExampleComponent as any as InjectableComponent<typeof ExampleComponent, typeof ExampleContexts>;
+ */
+export type InjectableComponent<C, CV> = C extends React.ComponentType<infer P> ? InjectedComponent<OuterProps<CV, P>, C> : never;
+
+/**
+ * Inject the value of multiple React contexts into a set of class component properties at
+ * runtime, in the same way as `Inject`, using a legacy class decorator (the
+ * `experimentalDecorators` option in TypeScript).
+ * 
+ * The class is replaced by the same component that `Inject` returns, so refs are forwarded to
+ * the class instance. TC39 decorators must replace a class with another class, and React only
+ * forwards refs through `React.forwardRef` (which doesn't return a class), so using this as a
+ * TC39 decorator throws an error instead of losing the ref.
+ * 
+ * @param ContextMap A map of properties to React v16 context objects, store sources, legacy
+ * contexts or chains. Guarded sources aren't supported, since the decorator never guards.
+ * @param Options Optional settings, such as whether providers must be present.
+ * @returns The class decorator.
+ * 
+ * @example
+ * // Import the Injectable decorator and InjectableComponent type.
+ * import { Injectable, InjectableComponent } from "react-injectable";
+ * 
+ * // The context map, which is also used to type the exported component.
+ * const ExampleContexts = {
+ *   injectedProp: MyContext,
+ * };
+ * 
+ * // The component declaration.
+ * @Injectable(ExampleContexts)
+ * class ExampleComponent extends React.Component<ExampleProps, {}> {
+ *   constructor(props: ExampleProps) {
+ *     super(props);
+ *   }
+ * }
+ * 
+ * // Export the component with the injected properties removed.
+ * export const Example = ExampleComponent as any as InjectableComponent<typeof ExampleComponent, typeof ExampleContexts>;
+ */
+export function Injectable<CV extends { [propName: string]: React.Context<any> | StoreSource<any> | LegacyContextSource<any> | ContextChain }>(
+  ContextMap: CV,
+  Options?: InjectOptions<InjectedValues<CV>>
+): <C extends React.ComponentClass<any>>(Target: C, Context?: { kind: string }) => C {
+  return <C extends React.ComponentClass<any>>(Target: C, Context?: { kind: string }) => {
+    if (Context !== undefined && Context !== null && Context.kind === "class") {
+      throw new Error(
+        `Injectable(${getDisplayName(Target)}) can't be used as a TC39 decorator, because it couldn't forward refs to the instance. ` +
+        `Use legacy decorators (experimentalDecorators) or Inject instead.`
+      );
+    }
+    // TypeScript doesn't let legacy decorators change the type of the class, which is why the
+    // class has to be cast to InjectableComponent when it is exported.
+    return injectContextMap("Injectable", ContextMap, Target, false, false, false, Options) as any as C;
+  };
+}
+
+/**
+ * Create a guarded source for use with `InjectGuarded`, `InjectSingleGuarded` or
+ * `useInjectedGuarded`, which uses a custom predicate to decide whether the value is present
+ * instead of checking for undefined. If the predicate is a type guard, the injected property
+ * has the narrowed type.
+ * 
+ * @param Source The React v16 context object (or store source) to pull the value from.
+ * @param Predicate A function that returns true if the value is present.
+ * @returns The guarded source.
+ * 
+ * @example
+ * // Import the Guard function.
+ * import { Guard, InjectGuarded } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere).
+ * export const SessionContext = React.createContext<Session | null>(null);
+ * 
+ * // The component declaration. The session property has the type Session, not Session | null.
+ * export const Example = InjectGuarded(
+ *   {
+ *     session: Guard(SessionContext, (value): value is Session => value !== null),
+ *   },
+ *   (props: { session: Session }) => {
+ *     return null;
+ *   });
+ */
+export function Guard<T, N extends T>(
+  Source: React.Context<T> | StoreSource<T>,
+  Predicate: (value: T) => value is N
+): GuardedSource<T, N, React.Context<T> | StoreSource<T>>;
+export function Guard<T>(
+  Source: React.Context<T> | StoreSource<T>,
+  Predicate: (value: T) => boolean
+): GuardedSource<T, T, React.Context<T> | StoreSource<T>>;
+export function Guard<T, N extends T>(
+  Source: LegacyContextSource<T>,
+  Predicate: (value: T) => value is N
+): GuardedSource<T, N, LegacyContextSource<T>>;
+export function Guard<T>(
+  Source: LegacyContextSource<T>,
+  Predicate: (value: T) => boolean
+): GuardedSource<T, T, LegacyContextSource<T>>;
+export function Guard<T>(
+  Source: React.Context<T> | StoreSource<T> | LegacyContextSource<T>,
+  Predicate: (value: T) => boolean
+): GuardedSource<T, T> {
+  return {
+    source: Source,
+    guard: Predicate as (value: T) => value is T,
+  };
+}
+
+interface SelectGateProps {
+  component: React.ComponentType<any>;
+  forwardedRef?: React.Ref<any>;
+  outerProps: { [key: string]: any };
+  selected: { [key: string]: any };
+  // If omitted, the selected values are compared as a whole with shallow equality.
+  isEqual?: { [key: string]: (previous: any, next: any) => boolean };
+}
+
+// Renders the wrapped component for selector-based injection, skipping the render when
+// the outer properties and every selected value are equal to what was last rendered.
+class SelectGate extends React.Component<SelectGateProps, {}> {
+  // We compare against the last rendered properties rather than this.props, because React
+  // updates this.props even when shouldComponentUpdate returns false.
+  private rendered: SelectGateProps | null = null;
+
+  public shouldComponentUpdate(nextProps: SelectGateProps) {
+    const rendered = this.rendered;
+    if (rendered === null ||
+      rendered.component !== nextProps.component ||
+      rendered.forwardedRef !== nextProps.forwardedRef ||
+      !shallowEqual(rendered.outerProps, nextProps.outerProps)) {
+      return true;
+    }
+    if (nextProps.isEqual === undefined) {
+      return !shallowEqual(rendered.selected, nextProps.selected);
+    }
+    for (let propName in nextProps.selected) {
+      // Values without a comparison (such as those added by injection overrides) must be identical.
+      if (!(nextProps.isEqual[propName] || objectIs)(rendered.selected[propName], nextProps.selected[propName])) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  public render() {
+    this.rendered = this.props;
+    const Component = this.props.component;
+    const injectedProps = objectAssign(objectAssign({}, this.props.outerProps), this.props.selected);
+    return (
+      <Component ref={this.props.forwardedRef} {...injectedProps} />
+    );
+  }
+}
+
+// Creates the wrapper component used by the selector-based injection functions. Every context
+// is read with hooks, and the selected values are passed to SelectGate which decides whether
+// the wrapped component needs to re-render.
+function injectSelectorMap(
+  Name: string,
+  SelectorMap: { [propName: string]: ContextSelector<any, any> },
+  WrappedComponent: React.ComponentType<any>
+): any {
+  const propNames = Object.keys(SelectorMap);
+  const isEqual: { [key: string]: (previous: any, next: any) => boolean } = {};
+  for (let i = 0; i < propNames.length; i++) {
+    isEqual[propNames[i]] = SelectorMap[propNames[i]].isEqual || shallowEqual;
+  }
+
+  const Injected = React.forwardRef<any, any>((props: any, ref?: React.Ref<any>) => {
+    const overrides = React.useContext(InjectionOverridesContext);
+    const selected: { [key: string]: any } = {};
+    for (let i = 0; i < propNames.length; i++) {
+      const contextSelector = SelectorMap[propNames[i]];
+      const value = readContextOverride(overrides, contextSelector.context, React.useContext(contextSelector.context));
+      selected[propNames[i]] = contextSelector.selector(value);
+    }
+    applyInjectionOverrides(overrides, Injected, selected);
+    const traced = React.useRef<{ [key: string]: any } | null>(null);
+    if (injectionTracer !== undefined) {
+      traceInjectedRender(injectionTracer, Injected.displayName, propNames, selected, traced, false);
+    }
+    return (
+      <SelectGate
+        component={WrappedComponent}
+        forwardedRef={ref}
+        outerProps={props}
+        selected={selected}
+        isEqual={isEqual}
+      />
+    );
+  }) as React.ComponentType<any>;
+  return finalizeInjected(Injected, WrappedComponent, Name, propNames.map((propName) =>
+    describeInjectedProp(propName, SelectorMap[propName].context, false)));
+}
+
+/**
+ * Create a context selector for use with `InjectSelectMap`, inferring the type of
+ * the selector's argument from the context.
+ * 
+ * @param Context The React v16 context object to pull the value from.
+ * @param Selector A function that derives the property value from the context value.
+ * @param Options Optional settings, such as a custom equality comparison for the selected value.
+ * @returns The context selector.
+ */
+export function Select<ContextType, SelectedType>(
+  Context: React.Context<ContextType>,
+  Selector: (value: ContextType) => SelectedType,
+  Options?: InjectSelectOptions<SelectedType>
+): ContextSelector<ContextType, SelectedType> {
+  return {
+    context: Context,
+    selector: Selector,
+    isEqual: Options === undefined ? undefined : Options.isEqual,
+  };
+}
+
+/**
+ * Inject a value derived from a single React context into a component's property at runtime,
+ * while ensuring that users of the component can not override or even see the
+ * property being injected into.
+ * 
+ * Unlike `InjectSingle`, the wrapped component is only re-rendered when the selected value
+ * or the component's own properties change, so changes to unrelated parts of a large context
+ * value don't cause re-renders.
+ * 
+ * @param Context The React v16 context object to pull the value from.
+ * @param Selector A function that derives the property value from the context value.
+ * @param PropName The name of the property to inject the selected value into.
+ * @param WrappedComponent The component that is being wrapped.
+ * @param Options Optional settings, such as a custom equality comparison for the selected value.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectSelect function.
+ * import { InjectSelect } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere).
+ * export const AppStateContext = React.createContext<AppState>(...);
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   userName: string;
+ * }
+ * 
+ * // The component declaration. It will only re-render when the user name changes.
+ * export const Example = InjectSelect(
+ *   AppStateContext,
+ *   (state) => state.user.name,
+ *   "userName",
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function InjectSelect<K extends string, ContextType, SelectedType, ComponentProps extends { [KK in K]: SelectedType }, C>(
+  Context: React.Context<ContextType>,
+  Selector: (value: ContextType) => SelectedType,
+  PropName: K,
+  Component: C & React.ComponentType<ComponentProps & React.ClassAttributes<React.Component<ComponentProps>>>,
+  Options?: InjectSelectOptions<SelectedType>
+): InjectedComponent<OuterProps<{ [KK in K]: SelectedType }, ComponentProps>, C> {
+  const SelectorMap: { [propName: string]: ContextSelector<any, any> } = {
+    [PropName]: Select(Context, Selector, Options),
+  };
+  return injectSelectorMap("InjectSelect", SelectorMap, Component);
+}
+
+/**
+ * Inject values derived from multiple React contexts into a set of component properties at runtime,
+ * while ensuring that users of the component can not override or even see the
+ * properties being injected into.
+ * 
+ * Unlike `Inject`, the wrapped component is only re-rendered when one of the selected values
+ * or the component's own properties change, so changes to unrelated parts of large context
+ * values don't cause re-renders.
+ * 
+ * @param SelectorMap A map of properties to context selectors, created with `Select`.
+ * @param Component The component to inject properties into.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectSelectMap and Select functions.
+ * import { InjectSelectMap, Select } from "react-injectable";
+ * 
+ * // The React v16 context (can be imported from elsewhere).
+ * export const AppStateContext = React.createContext<AppState>(...);
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   someProp: string;
+ *   userName: string;
+ *   unreadCount: number;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectSelectMap(
+ *   {
+ *     userName: Select(AppStateContext, (state) => state.user.name),
+ *     unreadCount: Select(AppStateContext, (state) => state.messages.unread),
+ *   },
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       someProp="hello"
+ *     />
+ *   );
+ * }
+ */
+export function InjectSelectMap<CV extends { [KX in keyof P]?: ContextSelector<any, P[KX]> }, P extends { [KK in keyof CV]: P[keyof CV] }, C>(
+  SelectorMap: CV,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
+): InjectedComponent<OuterProps<CV, P>, C> {
+  return injectSelectorMap("InjectSelectMap", SelectorMap as any as { [propName: string]: ContextSelector<any, any> }, WrappedComponent);
+}
+
+/**
+ * Inject properties derived from multiple React contexts and the component's own properties
+ * at runtime, while ensuring that users of the component can not override or even see the
+ * properties being injected into.
+ * 
+ * The mapper receives the context values (keyed like the context map) and the properties
+ * passed to the component, and returns the properties to inject. The injected properties are
+ * inferred from the mapper's return type. The wrapped component is only re-rendered when the
+ * returned properties are not shallowly equal to the last rendered ones, or when the component's
+ * own properties change.
+ * 
+ * The injection metadata (and so `InjectionAudit` and `renderInjected`) lists the entries of the
+ * context map, since the returned properties are only known once the mapper has run.
+ * 
+ * @param ContextMap A map of names to React v16 context objects or store sources. Legacy contexts
+ * and guarded sources are not supported, since the mapper decides how to handle missing values.
+ * @param Mapper A function that derives the injected properties from the context values and the
+ * component's own properties. Only the outer properties are passed as own properties, but
+ * TypeScript can't infer which properties the mapper derives before it types the mapper's
+ * parameters, so they are typed as every property of the component. Don't read the derived ones.
+ * @param Component The component to inject properties into.
+ * @returns The component that should be used by consumers or exported.
+ * 
+ * @example
+ * // Import the InjectWith function.
+ * import { InjectWith } from "react-injectable";
+ * 
+ * // The React v16 contexts (can be imported from elsewhere).
+ * export const UserContext = React.createContext<User>(...);
+ * export const PermissionsContext = React.createContext<Permissions>(...);
+ * 
+ * // The component properties (include injected properties here).
+ * interface ExampleProps {
+ *   ownerId: string;
+ *   canEdit: boolean;
+ * }
+ * 
+ * // The component declaration.
+ * export const Example = InjectWith(
+ *   {
+ *     user: UserContext,
+ *     permissions: PermissionsContext,
+ *   },
+ *   (values, ownProps) => ({
+ *     canEdit: values.permissions.has("edit") && values.user.id === ownProps.ownerId,
+ *   }),
+ *   class Example extends React.Component<ExampleProps, {}> {
+ *     constructor(props: ExampleProps) {
+ *       super(props);
+ *     }
+ *   });
+ *
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Example 
+ *       ownerId="1234"
+ *     />
+ *   );
+ * }
+ */
+export function InjectWith<CV extends { [propName: string]: React.Context<any> | StoreSource<any> | ContextChain }, D extends Partial<P>, P, C>(
+  ContextMap: CV,
+  Mapper: (values: InjectedValues<CV>, ownProps: P) => D,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
+): InjectedComponent<OuterProps<D, P>, C> {
+  const Injected = React.forwardRef<any, any>((props: any, ref?: React.Ref<any>) => {
+    const overrides = React.useContext(InjectionOverridesContext);
+    const values = readContextMap(ContextMap, false, overrides) as InjectedValues<CV>;
+    const derived = applyInjectionOverrides(overrides, Injected, objectAssign({}, Mapper(values, props)));
+    const traced = React.useRef<{ [key: string]: any } | null>(null);
+    if (injectionTracer !== undefined) {
+      traceInjectedRender(injectionTracer, Injected.displayName, Object.keys(derived), derived, traced, false);
+    }
+    return (
+      <SelectGate
+        component={WrappedComponent}
+        forwardedRef={ref}
+        outerProps={props}
+        selected={derived}
+      />
+    );
+  }) as React.ComponentType<any>;
+  // The mapped properties depend on what the mapper returns, so the metadata describes the
+  // contexts that are passed to it instead.
+  return finalizeInjected(Injected, WrappedComponent, "InjectWith", Object.keys(ContextMap).map((propName) => {
+    const contexts = unwrapSources(ContextMap[propName]).filter(isReactContext);
+    return describeInjectedProp(propName, contexts[0], false, isContextChain(ContextMap[propName]) ? contexts.slice(1) : undefined);
+  }));
+}
+
+/**
+ * The properties of a providers component created with `createProviders`.
+ */
+export interface ProvidersProps<CV> {
+  /**
+   * The values to provide, keyed like the context map. Any values that are omitted are not
+   * provided, so they are inherited from the providers further up the tree (and still count as
+   * missing providers for strict injection). To explicitly provide undefined, include the key
+   * with an undefined value. Changing which keys are present remounts the children.
+   */
+  values: Partial<InjectedValues<CV>>;
+  children?: React.ReactNode;
+}
+
+/**
+ * Create a component that provides values for every context in a context map, so that the
+ * same map can be used to both provide and inject values. The values are type-checked against
+ * the context map.
+ * 
+ * @param ContextMap A map of property names to React v16 context objects.
+ * @returns The component that provides the context values.
+ * 
+ * @example
+ * // Import the createProviders function.
+ * import { createProviders } from "react-injectable";
+ * 
+ * // The context map, which can also be passed to Inject.
+ * export const AppContexts = {
+ *   injectedProp: MyContext1,
+ *   anotherInjectedProp: MyContext2,
+ * };
+ * 
+ * // The providers declaration.
+ * export const AppProviders = createProviders(AppContexts);
+ * 
+ * // Using the providers in code.
+ * function usageExample() {
+ *   return (
+ *     <AppProviders values={{ injectedProp: ..., anotherInjectedProp: "hello" }}>
+ *       <Example someProp="hello" />
+ *     </AppProviders>
+ *   );
+ * }
+ */
+export function createProviders<CV extends { [propName: string]: React.Context<any> }>(
+  ContextMap: CV
+): React.ComponentType<ProvidersProps<CV>> {
+  const propNames = Object.keys(ContextMap);
+
+  const Providers = (props: ProvidersProps<CV>) => {
+    // Only the values that are present get a provider, so that omitted contexts are still
+    // reported as missing by strict injection and InjectionAudit. Since the providers change
+    // when the set of keys does, the fragment is keyed by that set so the children are always
+    // remounted in that case (rather than depending on how React reconciles the nesting).
+    const values = props.values as { [key: string]: any };
+    const provided = propNames.filter((propName) => Object.prototype.hasOwnProperty.call(values, propName));
+    let children = props.children;
+    for (let i = provided.length - 1; i >= 0; i--) {
+      const Context = ContextMap[provided[i]];
+      children = (
+        <Context.Provider value={values[provided[i]]}>
+          {children}
+        </Context.Provider>
+      );
+    }
+    return (
+      <React.Fragment key={provided.join(",")}>
+        {children}
+      </React.Fragment>
+    );
+  };
+  (Providers as React.ComponentType<any>).displayName = "Providers";
+  return Providers;
+}
+
+/**
+ * Read the values of multiple React contexts from within a function component, returning
+ * an object keyed like the context map. The value types are inferred in the same way as `Inject`,
+ * and context overrides from `InjectionScope` apply in the same way.
+ * 
+ * As with all hooks, the keys of the context map must not change between renders.
+ * 
+ * @param ContextMap A map of property names to React v16 context objects or store sources.
+ * @returns The current context values, keyed like the context map.
+ * 
+ * @example
+ * // Import the useInjected function.
+ * import { useInjected } from "react-injectable";
+ * 
+ * // The React v16 contexts (can be imported from elsewhere).
+ * export const MyContext1 = React.createContext<SomeType>(...);
+ * export const MyContext2 = React.createContext<string>("hello");
+ * 
+ * // The component declaration.
+ * export function Example(props: { someProp: string }) {
+ *   const { injectedProp, anotherInjectedProp } = useInjected({
+ *     injectedProp: MyContext1,
+ *     anotherInjectedProp: MyContext2,
+ *   });
+ *   return (
+ *     <p>{anotherInjectedProp}</p>
+ *   );
+ * }
+ */
+export function useInjected<CV extends HookContextMap>(
+  ContextMap: CV
+): InjectedValues<CV> {
+  const overrides = React.useContext(InjectionOverridesContext);
+  return readContextMap(ContextMap, false, overrides) as InjectedValues<CV>;
+}
+
+// Reads the values of every React context and store source in a context map with hooks, replacing
+// the values of contexts with any overrides that target them. Legacy contexts can't be read with
+// hooks, so they are either skipped (for the caller to read) or raise an error.
+function readContextMap(ContextMap: ContextMap, SkipLegacy: boolean, Overrides?: InjectionOverride[]): { [propName: string]: any } {
+  const values: { [propName: string]: any } = {};
+  const propNames = Object.keys(ContextMap);
+  for (let i = 0; i < propNames.length; i++) {
+    const entry = ContextMap[propNames[i]];
+    if (isContextChain(entry)) {
+      // Every source in the chain is read on each render, even once a value has been found, so
+      // that the hooks are always called in the same order.
+      let value: any = undefined;
+      for (let j = 0; j < entry.length; j++) {
+        const chainValue = readSource(entry[j], Overrides);
+        if (value === undefined) {
+          value = chainValue;
+        }
+      }
+      values[propNames[i]] = value;
+      continue;
+    }
+    const source = isGuardedSource(entry) ? entry.source : entry;
+    if (isLegacyContextSource(source)) {
+      if (!SkipLegacy) {
+        throw new Error(
+          `The legacy context "${source.legacyContextKey}" can only be read by Inject (and the other context injection ` +
+          `functions), because legacy contexts can't be read with hooks. Use createLegacyContextBridge instead.`
+        );
+      }
+      continue;
+    }
+    values[propNames[i]] = readSource(source, Overrides);
+  }
+  return values;
+}
+
+// Reads the value of a React context or store source with a hook, replacing the value of a
+// context with the last override that targets it.
+function readSource(source: React.Context<any> | StoreSource<any>, Overrides: InjectionOverride[] | undefined): any {
+  if (isStoreSource(source)) {
+    return useStoreSnapshot(source);
+  }
+  const value = React.useContext(source);
+  return Overrides === undefined || Overrides.length === 0 ? value : readContextOverride(Overrides, source, value);
+}
+
+/**
+ * Read the values of multiple React contexts from within a function component, where
+ * the context values might be undefined. If every value is present, this returns an object
+ * keyed like the context map, otherwise it returns undefined. This matches the semantics of
+ * `InjectGuarded`.
+ * 
+ * As with all hooks, the keys of the context map must not change between renders.
+ * 
+ * @param ContextMap A map of property names to React v16 context objects or store sources.
+ * @returns The current context values keyed like the context map, or undefined if any value is missing.
+ * 
+ * @example
+ * // Import the useInjectedGuarded function.
+ * import { useInjectedGuarded } from "react-injectable";
+ * 
+ * // The React v16 contexts (can be imported from elsewhere).
+ * export const MyContext1 = React.createContext<SomeType>();
+ * export const MyContext2 = React.createContext<string>();
+ * 
+ * // The component declaration.
+ * export function Example(props: { someProp: string }) {
+ *   const injected = useInjectedGuarded({
+ *     injectedProp: MyContext1,
+ *     anotherInjectedProp: MyContext2,
+ *   });
+ *   if (injected === undefined) {
+ *     return null;
+ *   }
+ *   return (
+ *     <p>{injected.anotherInjectedProp}</p>
+ *   );
+ * }
+ */
+export function useInjectedGuarded<CV extends HookContextMap>(
+  ContextMap: CV
+): GuardedInjectedValues<CV> | undefined {
+  const values = useInjected(ContextMap);
+  if (findMissingProps(ContextMap, Object.keys(ContextMap), values).length > 0) {
+    return undefined;
+  }
+  return values as any as GuardedInjectedValues<CV>;
+}
+
+/**
+ * The properties of `Injected`.
+ */
+export interface InjectedProps<CV> {
+  contexts: CV;
+  children: (values: InjectedValues<CV>) => React.ReactNode;
+}
+
+/**
+ * Read the values of multiple React contexts inline in JSX, without creating a new component
+ * or nesting a `Context.Consumer` for each context. The children are called with an object
+ * keyed like the context map, with the value types inferred in the same way as `Inject`.
+ * 
+ * As with `useInjected`, the keys of the context map must not change between renders.
+ * 
+ * @example
+ * // Import the Injected component.
+ * import { Injected } from "react-injectable";
+ * 
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <Injected contexts={{ injectedProp: MyContext1, anotherInjectedProp: MyContext2 }}>
+ *       {(values) => <p>{values.anotherInjectedProp}</p>}
+ *     </Injected>
+ *   );
+ * }
+ */
+export function Injected<CV extends HookContextMap>(props: InjectedProps<CV>) {
+  const overrides = React.useContext(InjectionOverridesContext);
+  const values = readContextMap(props.contexts, false, overrides) as InjectedValues<CV>;
+  return (
+    <>
+      {props.children(values)}
+    </>
+  );
+}
+
+/**
+ * The properties of `InjectedGuarded`.
+ */
+export interface InjectedGuardedProps<CV> {
+  contexts: CV;
+  /**
+   * Rendered instead of calling the children while any of the values are missing.
+   */
+  fallback?: React.ReactNode;
+  children: (values: GuardedInjectedValues<CV>) => React.ReactNode;
+}
+
+/**
+ * Read the values of multiple React contexts inline in JSX, where the context values might be
+ * undefined. The children are only called when every value is present (with the types narrowed
+ * in the same way as `InjectGuarded`), and the fallback is rendered otherwise.
+ * 
+ * As with `useInjectedGuarded`, the keys of the context map must not change between renders.
+ * 
+ * @example
+ * // Import the InjectedGuarded component.
+ * import { InjectedGuarded } from "react-injectable";
+ * 
+ * // Using the component in code.
+ * function usageExample() {
+ *   return (
+ *     <InjectedGuarded contexts={{ injectedProp: MyContext1, anotherInjectedProp: MyContext2 }} fallback={<Spinner />}>
+ *       {(values) => <p>{values.anotherInjectedProp}</p>}
+ *     </InjectedGuarded>
+ *   );
+ * }
+ */
+export function InjectedGuarded<CV extends HookContextMap>(props: InjectedGuardedProps<CV>) {
+  const overrides = React.useContext(InjectionOverridesContext);
+  const values = readContextMap(props.contexts, false, overrides);
+  if (findMissingProps(props.contexts, Object.keys(props.contexts), values, true).length > 0) {
+    return (
+      <>
+        {props.fallback}
+      </>
+    );
+  }
+  return (
+    <>
+      {props.children(values as any as GuardedInjectedValues<CV>)}
+    </>
+  );
+}
+
+/**
+ * The values that an `InjectionScope` override can replace. For a context, this is the value
+ * of the context. For an injected component, this is any of the properties that it injects.
+ */
+export type InjectionScopeValues<T> =
+  T extends React.Context<infer V> ? V :
+  T extends { WrappedComponent: React.ComponentType<infer P> } ?
+    (T extends React.ComponentType<infer OP> ? Partial<Dissoc<P, keyof OP>> : never) :
+    never;
+
+/**
+ * The properties of `InjectionScope`.
+ */
+export interface InjectionScopeProps<T extends any[]> {
+  /**
+   * A list of `[Target, values]` pairs, where the target is either an injected component (and
+   * the values replace some of its injected properties) or a context (and the value replaces the
+   * value of the context for every injected component that reads it). When several overrides
+   * apply, the last one wins, and component overrides win over context overrides.
+   */
+  overrides: { [I in keyof T]: [T[I], InjectionScopeValues<T[I]>] };
+  children?: React.ReactNode;
+}
+
+// Returns true if both lists of overrides replace the same targets with the same values. The
+// values of component overrides are usually object literals, so they are compared by property.
+function sameOverrideEntries(a: [any, any][], b: [any, any][]): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i][0] !== b[i][0]) {
+      return false;
+    }
+    const equal = readInjectionMetadata(a[i][0]) !== undefined ? shallowEqual : objectIs;
+    if (!equal(a[i][1], b[i][1])) {
+      return false;
+    }
+  }
+  return true;
+}
 
 /**
- * Inject the value of a single React context into a component's property at runtime,
- * while ensuring that users of the component can not override or even see the
- * property being injected into.
- * 
- * This allows components to automatically map properties to context values,
- * while ensuring consumers of the component don't see properties that they
- * don't need to provide a value for.
+ * Replaces injected values for the components underneath it, without providing new context
+ * values for every other component. Overrides can target a specific injected component, or
+ * every injected component that reads a context. The overrides are checked by the injected
+ * components before the real context values are used, and the values are type-checked against
+ * the injected properties (when the overrides are passed as an array literal).
  * 
- * @param Context The React v16 context object to pull the value from.
- * @param PropName The name of the property to inject the value into.
- * @param WrappedComponent The component that is being wrapped.
- * @returns The component that should be used by consumers or exported.
+ * Scopes can be nested, in which case the overrides of the inner scope win.
  * 
  * @example
- * // Import the InjectSingle function.
- * import { InjectSingle } from "react-injectable";
- * 
- * // The React v16 context (can be imported from elsewhere).
- * export const MyContext = React.createContext<SomeType>(...);
- * 
- * // The component properties (include injected properties here).
- * interface ExampleProps {
- *   someProp: string;
- *   injectedProp: SomeType;
- * }
+ * // Import the InjectionScope component.
+ * import { InjectionScope } from "react-injectable";
  * 
- * // The component declaration.
- * export const Example = InjectSingle(
- *   MyContext, 
- *   "injectedProp", 
- *   class Example extends React.Component<ExampleProps, {}> {
- *     constructor(props: ExampleProps) {
- *       super(props);
- *     }
- *   });
- *
- * // Using the component in code.
+ * // Render a preview where Example gets a different value, and every injected component
+ * // gets a different MyContext2 value.
  * function usageExample() {
  *   return (
- *     <Example 
- *       someProp="hello"
- *     />
+ *     <InjectionScope overrides={[[Example, { injectedProp: ... }], [MyContext2, "preview"]]}>
+ *       <App />
+ *     </InjectionScope>
  *   );
  * }
  */
-export function InjectSingle<K extends string, ContextType, ComponentProps extends { [KK in K]: ContextType }>(
-  Context: React.Context<ContextType>,
-  PropName: K,
-  Component: React.ComponentType<ComponentProps & React.ClassAttributes<React.Component<ComponentProps>>>
-): React.ComponentType<OuterProps<{ [KK in K]: ContextType }, ComponentProps> & React.ClassAttributes<React.Component<OuterProps<{ [KK in K]: ContextType }, ComponentProps>>>> {
-  type ResultProps = OuterProps<{ [KK in K]: ContextType }, ComponentProps>;
-
-  return React.forwardRef<React.ComponentType<ResultProps>, ResultProps>((props: ResultProps, ref?: React.RefObject<React.ComponentType<ResultProps>>) => {
-    return (
-      <Context.Consumer>
-        {(value: ContextType): React.ReactNode => {
-          const injectedProps = objectAssign(
-            {
-              [PropName]: value
-            },
-            props
-          ) as ComponentProps;
-          return (
-            <Component ref={ref} {...injectedProps} />
-          )
-        }}
-      </Context.Consumer>
-    )
-  });
+export function InjectionScope<T extends any[]>(props: InjectionScopeProps<T>) {
+  const inherited = React.useContext(InjectionOverridesContext);
+  // The overrides are usually an array literal, so we keep the previous entries while they are
+  // equal. Otherwise every injected component underneath would re-render with the parent.
+  const previous = React.useRef<[any, any][] | null>(null);
+  if (previous.current === null || !sameOverrideEntries(previous.current, props.overrides as [any, any][])) {
+    previous.current = props.overrides as [any, any][];
+  }
+  const entries = previous.current;
+  const overrides = React.useMemo(() => {
+    if (entries.length === 0) {
+      return inherited;
+    }
+    // Overrides are applied in order, so the overrides of this scope win over the inherited ones.
+    const combined = inherited.slice();
+    for (let i = 0; i < entries.length; i++) {
+      const target = entries[i][0];
+      combined.push(readInjectionMetadata(target) !== undefined ?
+        { component: target, values: entries[i][1] } :
+        { context: target, value: entries[i][1] });
+    }
+    return combined;
+  }, [inherited, entries]);
+  return (
+    <InjectionOverridesContext.Provider value={overrides}>
+      {props.children}
+    </InjectionOverridesContext.Provider>
+  );
 }
 
 /**
- * Inject the value of a single React context into a component's property at runtime,
- * where that value might be undefined, while ensuring that users of the component can
- * not override or even see the property being injected into.
+ * Returns how a component created by one of the injection functions injects its properties,
+ * including the name of the function that created it, and the name, context and whether it is
+ * guarded for each injected property. Returns undefined if the component wasn't created by one
+ * of the injection functions.
  * 
- * This allows components to automatically map properties to context values,
- * while ensuring consumers of the component don't see properties that they
- * don't need to provide a value for.
+ * @param Component The component to read the metadata of.
+ * @returns The injection metadata, or undefined.
  * 
- * If the context value is undefined, the component is not instantiated at all. The
- * component prop being injected into should NOT accept undefined as a value.
+ * @example
+ * // Import the getInjectionMetadata function.
+ * import { getInjectionMetadata } from "react-injectable";
  * 
- * @param Context The React v16 context object to pull the value from.
- * @param PropName The name of the property to inject the value into.
- * @param WrappedComponent The component that is being wrapped.
- * @returns The component that should be used by consumers or exported.
+ * const metadata = getInjectionMetadata(Example);
+ * // { injector: "Inject", props: [{ propName: "injectedProp", context: MyContext, contextDisplayName: "MyContext", guarded: false }] }
+ */
+export function getInjectionMetadata(Component: any): InjectionMetadata | undefined {
+  return readInjectionMetadata(Component);
+}
+
+/**
+ * Adapt an RxJS-style observable into a store source, so that its latest value can be injected
+ * with `Inject` (or read with `useInjected`). Until the observable emits, the snapshot is the
+ * initial value. Each injected component subscribes to the observable separately, so this works
+ * best with hot observables and subjects.
  * 
- * @example
- * // Import the InjectSingle function.
- * import { InjectSingle } from "react-injectable";
+ * @param Observable The observable to subscribe to.
+ * @param InitialValue The value to inject before the observable has emitted.
+ * @returns The store source to use in a context map.
  * 
- * // The React v16 context (can be imported from elsewhere). In this case the
- * // context is initialised with undefined (no argument) so the context type
- * // is actually React.Context<string | undefined>.
- * export const MyContext = React.createContext<string>();
+ * @example
+ * // Import the fromObservable function.
+ * import { fromObservable } from "react-injectable";
  * 
- * // The component properties (include injected properties here).
- * interface ExampleProps {
- *   someProp: string;
- *   requiredInjectedProp: string;
- * }
+ * // The observable (can be imported from elsewhere).
+ * export const CurrentUser = fromObservable(currentUser$, undefined);
  * 
  * // The component declaration.
- * export const Example = InjectSingleGuarded(
- *   MyContext, 
- *   "requiredInjectedProp", 
- *   class Example extends React.Component<ExampleProps, {}> {
- *     constructor(props: ExampleProps) {
- *       super(props);
- *     }
+ * export const Example = InjectGuarded(
+ *   {
+ *     user: CurrentUser,
+ *   },
+ *   (props: { user: User }) => {
+ *     return (
+ *       <p>{props.user.name}</p>
+ *     );
  *   });
- *
- * // Using the component in code.
- * function usageExample() {
- *   return (
- *     <Example 
- *       someProp="hello"
- *     />
- *   );
- * }
  */
-export function InjectSingleGuarded<K extends string, ContextType, ComponentProps extends { [KK in K]: ContextType }>(
-  Context: React.Context<ContextType | undefined>,
-  PropName: K,
-  Component: React.ComponentType<ComponentProps & React.ClassAttributes<React.Component<ComponentProps>>>
-): React.ComponentType<OuterProps<{ [KK in K]: ContextType }, ComponentProps> & React.ClassAttributes<React.Component<OuterProps<{ [KK in K]: ContextType }, ComponentProps>>>> {
-  type ResultProps = OuterProps<{ [KK in K]: ContextType }, ComponentProps>;
-
-  return React.forwardRef<React.ComponentType<ResultProps>, ResultProps>((props: ResultProps, ref?: React.RefObject<React.ComponentType<ResultProps>>) => {
-    return (
-      <Context.Consumer>
-        {(value: ContextType | undefined): React.ReactNode => {
-          if (value === undefined) {
-            // Value is null, do not render wrapped component.
-            return null;
-          }
-          const injectedProps = objectAssign(
-            {
-              [PropName]: value
-            },
-            props
-          ) as ComponentProps;
-          return (
-            <Component ref={ref} {...injectedProps} />
-          )
-        }}
-      </Context.Consumer>
-    )
-  });
+export function fromObservable<T>(
+  Observable: Subscribable<T>,
+  InitialValue: T
+): StoreSource<T> {
+  let current = InitialValue;
+  return {
+    subscribe: (listener: () => void) => Observable.subscribe({
+      next: (value: T) => {
+        current = value;
+        listener();
+      },
+    }),
+    getSnapshot: () => current,
+  };
 }
 
 /**
- * Inject the value of multiple React contexts into a set of component properties at runtime,
- * while ensuring that users of the component can not override or even see the
- * properties being injected into.
+ * Adapt a value from the legacy (pre-16.3) context API, which is declared with `contextTypes`
+ * and `childContextTypes`, so that it can be used in the context map passed to `Inject`,
+ * `InjectGuarded` or `InjectRequired`. This lets one component take properties from new and
+ * legacy contexts together while you migrate. Legacy contexts can't be read with hooks, so
+ * use `createLegacyContextBridge` to read them from `useInjected` or `InjectSelect`.
  * 
- * This allows components to automatically map properties to context values,
- * while ensuring consumers of the component don't see properties that they
- * don't need to provide a value for.
+ * When a context map has legacy contexts, the injected component renders one extra class
+ * component to read them. As with all legacy contexts, updates to the value don't reach the
+ * injected component if a component in between skips rendering with `shouldComponentUpdate`.
  * 
- * @param ContextMap A map of properties to React v16 context objects.
- * @param Component The component to inject properties into.
- * @returns The component that should be used by consumers or exported.
+ * @param Key The name of the value in the legacy context.
+ * @param Validator The prop-types validator for the value, as used in `contextTypes`.
+ * @returns The legacy context source.
  * 
  * @example
- * // Import the Inject function.
- * import { Inject } from "react-injectable";
- * 
- * // The React v16 contexts (can be imported from elsewhere).
- * export const MyContext1 = React.createContext<SomeType>(...);
- * export const MyContext2 = React.createContext<string>("hello");
- * 
- * // The component properties (include injected properties here).
- * interface ExampleProps {
- *   someProp: string;
- *   injectedProp: SomeType;
- *   anotherInjectedProp: string;
- * }
+ * // Import the legacyContext function.
+ * import { Inject, legacyContext } from "react-injectable";
  * 
  * // The component declaration.
  * export const Example = Inject(
  *   {
+ *     router: legacyContext<Router>("router", PropTypes.object),
  *     injectedProp: MyContext1,
- *     anotherInjectedProp: MyContext2,
  *   },
  *   class Example extends React.Component<ExampleProps, {}> {
- *     constructor(props: ExampleProps) {
- *       super(props);
- *     }
+ *     ...
  *   });
- *
- * // Using the component in code.
+ */
+export function legacyContext<T = any>(
+  Key: string,
+  Validator: React.Validator<any>
+): LegacyContextSource<T> {
+  return {
+    legacyContextKey: Key,
+    validator: Validator,
+  };
+}
+
+/**
+ * A React context that carries the value of a legacy context, along with the component that
+ * provides it. This is returned by `createLegacyContextBridge`.
+ */
+export interface LegacyContextBridge<T> {
+  Context: React.Context<T | undefined>;
+  /**
+   * Reads the legacy context value and provides it to the components underneath it through
+   * `Context`. This must be rendered underneath the component that declares the legacy value
+   * in its `childContextTypes`.
+   */
+  Provider: React.ComponentType<{ children?: React.ReactNode }>;
+}
+
+/**
+ * Expose the value of a legacy (pre-16.3) context as a React context, so that new consumers
+ * (such as `Inject`, `useInjected` or `InjectSelect`) can read it during a migration. Render
+ * the returned provider underneath the component that provides the legacy context. The context
+ * value is undefined when there's no provider, so it can be used with `InjectGuarded`.
+ * 
+ * @param Source The legacy context, created with `legacyContext`.
+ * @returns The React context, and the provider that fills it from the legacy context.
+ * 
+ * @example
+ * // Import the createLegacyContextBridge function.
+ * import { createLegacyContextBridge, legacyContext } from "react-injectable";
+ * 
+ * // The bridge declaration.
+ * export const RouterBridge = createLegacyContextBridge(legacyContext<Router>("router", PropTypes.object));
+ * 
+ * // Rendering the provider underneath the legacy router.
  * function usageExample() {
  *   return (
- *     <Example 
- *       someProp="hello"
- *     />
+ *     <LegacyRouter>
+ *       <RouterBridge.Provider>
+ *         <App />
+ *       </RouterBridge.Provider>
+ *     </LegacyRouter>
  *   );
  * }
+ * 
+ * // Reading the value from the bridged context.
+ * export const Example = InjectGuarded({ router: RouterBridge.Context }, ...);
  */
-export function Inject<CV extends { [KX in keyof P]?: React.Context<P[KX]> }, P extends { [KK in keyof CV]: P[keyof CV] }>(
-  ContextMap: CV,
-  WrappedComponent: React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
-): React.ComponentType<OuterProps<CV, P> & React.ClassAttributes<React.Component<OuterProps<CV, P>>>> {
-  // TODO: I don't think there's anyway to avoid the use of "any" here, since we can't
-  // re-assign to "current" as we strip out each property iteratively.
-  let current: React.ComponentType<any> = WrappedComponent;
-  for (let cv in ContextMap) {
-    current = InjectSingle(ContextMap[cv], cv, current);
+export function createLegacyContextBridge<T>(
+  Source: LegacyContextSource<T>
+): LegacyContextBridge<T> {
+  const Context = React.createContext<T | undefined>(undefined);
+  Context.displayName = `LegacyContext(${Source.legacyContextKey})`;
+
+  class LegacyContextBridgeProvider extends React.Component<{ children?: React.ReactNode }, {}> {
+    public static contextTypes = { [Source.legacyContextKey]: Source.validator };
+    public static displayName = `LegacyContextBridge(${Source.legacyContextKey})`;
+
+    public render() {
+      return (
+        <Context.Provider value={this.context[Source.legacyContextKey]}>
+          {this.props.children}
+        </Context.Provider>
+      );
+    }
   }
-  return current;
+  return {
+    Context,
+    Provider: LegacyContextBridgeProvider,
+  };
 }
 
 /**
- * Inject the value of multiple React contexts into a set of component properties at runtime,
- * where the context values might be undefined, while ensuring that users of the component can 
- * not override or even see the properties being injected into.
+ * A typed key that services are registered and resolved under in a container. Create
+ * these with `createToken`.
+ */
+export interface Token<T> {
+  readonly id: number;
+  readonly name: string;
+  // This is never set; it only exists so that TypeScript can infer the service type.
+  readonly __serviceType?: T;
+}
+
+/**
+ * A map of property names (or dependency names) to service tokens.
+ */
+export type TokenMap = { [name: string]: Token<any> };
+
+/**
+ * The services resolved from a token map, keyed like the map itself.
+ */
+export type TokenValues<TM> = { [K in keyof TM]: TM[K] extends Token<infer T> ? T : never };
+
+/**
+ * How long a resolved service lives for. Singletons are created once per container, scoped services
+ * are created once per `ContainerProvider`, and transient services are created every time they
+ * are resolved.
+ */
+export type ServiceLifetime = "singleton" | "scoped" | "transient";
+
+/**
+ * Describes how to create a service registered in a container.
+ */
+export interface ServiceRegistration<T, D extends TokenMap> {
+  lifetime: ServiceLifetime;
+  /**
+   * The other services that this service depends on. These are resolved and passed to the factory.
+   */
+  dependencies?: D;
+  factory: (dependencies: TokenValues<D>) => T;
+}
+
+/**
+ * A dependency injection container, created with `createContainer`.
+ */
+export interface Container {
+  /**
+   * Register a service under a token. Registering a token again replaces the previous registration.
+   */
+  register<T, D extends TokenMap = {}>(token: Token<T>, registration: ServiceRegistration<T, D>): Container;
+  /**
+   * Resolve a service outside of React. Scoped services resolved this way are scoped to the container.
+   */
+  resolve<T>(token: Token<T>): T;
+}
+
+let nextTokenId = 1;
+
+/**
+ * Create a token to register and resolve a service under.
  * 
- * This allows components to automatically map properties to context values,
- * while ensuring consumers of the component don't see properties that they
- * don't need to provide a value for.
+ * @param name The name of the token, used in error messages.
+ * @returns The new token.
+ */
+export function createToken<T>(name: string): Token<T> {
+  return {
+    id: nextTokenId++,
+    name: name,
+  };
+}
+
+// Formats a chain of tokens for error messages.
+function formatTokenChain(chain: Token<any>[]): string {
+  return chain.map((token) => `"${token.name}"`).join(" -> ");
+}
+
+// Holds the scoped instances for a ContainerProvider (or the singletons, for the root scope).
+class ServiceScope {
+  public readonly instances: { [tokenId: number]: any } = {};
+
+  constructor(public readonly container: ServiceContainer) {
+  }
+
+  public resolve<T>(token: Token<T>): T {
+    return this.container.resolveInScope(this, token, []);
+  }
+}
+
+class ServiceContainer implements Container {
+  private readonly registrations: { [tokenId: number]: ServiceRegistration<any, TokenMap> } = {};
+  public readonly rootScope = new ServiceScope(this);
+
+  public register<T, D extends TokenMap = {}>(token: Token<T>, registration: ServiceRegistration<T, D>): Container {
+    this.registrations[token.id] = registration as any as ServiceRegistration<any, TokenMap>;
+    return this;
+  }
+
+  public resolve<T>(token: Token<T>): T {
+    return this.rootScope.resolve(token);
+  }
+
+  public resolveInScope<T>(scope: ServiceScope, token: Token<T>, path: Token<any>[]): T {
+    const chain = path.concat([token]);
+    if (path.indexOf(token) !== -1) {
+      throw new Error(`Cyclic dependency between services: ${formatTokenChain(chain)}.`);
+    }
+    const registration = this.registrations[token.id];
+    if (registration === undefined) {
+      throw new Error(`No service is registered for token "${token.name}" (resolving ${formatTokenChain(chain)}).`);
+    }
+
+    // Singletons live in the root scope, so a scoped service that they depend on (even through
+    // transient services) would be shared by every provider instead of being created per scope.
+    if (registration.lifetime === "scoped") {
+      for (let i = 0; i < path.length; i++) {
+        if (this.registrations[path[i].id].lifetime === "singleton") {
+          throw new Error(
+            `The singleton service "${path[i].name}" can not depend on the scoped service "${token.name}" ` +
+            `(resolving ${formatTokenChain(chain)}).`
+          );
+        }
+      }
+    }
+    const resolutionScope = registration.lifetime === "singleton" ? this.rootScope : scope;
+    const cacheScope = registration.lifetime === "transient" ? null : resolutionScope;
+    if (cacheScope !== null && Object.prototype.hasOwnProperty.call(cacheScope.instances, token.id)) {
+      return cacheScope.instances[token.id];
+    }
+
+    const dependencies: { [name: string]: any } = {};
+    const dependencyTokens = registration.dependencies || {};
+    for (let name in dependencyTokens) {
+      dependencies[name] = this.resolveInScope(resolutionScope, dependencyTokens[name], chain);
+    }
+    const instance = registration.factory(dependencies);
+    if (cacheScope !== null) {
+      cacheScope.instances[token.id] = instance;
+    }
+    return instance;
+  }
+}
+
+const ServiceScopeContext = React.createContext<ServiceScope | undefined>(undefined);
+
+/**
+ * Create a dependency injection container. Services are registered against tokens, and
+ * can be injected into components with `InjectServices` underneath a `ContainerProvider`.
+ * 
+ * @returns The new container.
+ * 
+ * @example
+ * // Import the container functions.
+ * import { createContainer, createToken } from "react-injectable";
+ * 
+ * // The tokens for each service.
+ * export const LoggerToken = createToken<Logger>("Logger");
+ * export const ApiToken = createToken<Api>("Api");
+ * 
+ * // The container declaration.
+ * export const container = createContainer()
+ *   .register(LoggerToken, {
+ *     lifetime: "singleton",
+ *     factory: () => new ConsoleLogger(),
+ *   })
+ *   .register(ApiToken, {
+ *     lifetime: "scoped",
+ *     dependencies: { logger: LoggerToken },
+ *     factory: ({ logger }) => new Api(logger),
+ *   });
+ */
+export function createContainer(): Container {
+  return new ServiceContainer();
+}
+
+/**
+ * The properties of `ContainerProvider`.
+ */
+export interface ContainerProviderProps {
+  container: Container;
+  children?: React.ReactNode;
+}
+
+/**
+ * Makes the services of a container available to components created with `InjectServices`
+ * underneath it. Each `ContainerProvider` has its own scope, so scoped services are created
+ * once per provider.
+ */
+export function ContainerProvider(props: ContainerProviderProps) {
+  const scope = React.useRef<ServiceScope | null>(null);
+  if (scope.current === null || scope.current.container !== props.container) {
+    scope.current = new ServiceScope(props.container as ServiceContainer);
+  }
+  return (
+    <ServiceScopeContext.Provider value={scope.current}>
+      {props.children}
+    </ServiceScopeContext.Provider>
+  );
+}
+
+/**
+ * Inject services from a dependency injection container into a set of component properties at runtime,
+ * while ensuring that users of the component can not override or even see the
+ * properties being injected into.
  * 
- * If any of the context values are undefined, the component is not instantiated at all.
- * The component props being injected into should NOT accept undefined values.
+ * The services are resolved from the nearest `ContainerProvider` when the component is first rendered,
+ * and the same instances are used for the lifetime of the component. Overrides from `InjectionScope`
+ * are applied on every render, so they can be changed while the component is mounted.
  * 
- * @param ContextMap A map of properties to React v16 context objects.
+ * @param TokenMap A map of properties to service tokens.
  * @param Component The component to inject properties into.
  * @returns The component that should be used by consumers or exported.
  * 
  * @example
- * // Import the Inject function.
- * import { Inject } from "react-injectable";
- * 
- * // The React v16 contexts (can be imported from elsewhere). Because createContext
- * // is used with no arguments here, the resulting types are React.Context<SomeType | undefined>
- * // and React.Context<string | undefined> respectively.
- * export const MyContext1 = React.createContext<SomeType>();
- * export const MyContext2 = React.createContext<string>();
+ * // Import the InjectServices function.
+ * import { InjectServices } from "react-injectable";
  * 
  * // The component properties (include injected properties here).
  * interface ExampleProps {
  *   someProp: string;
- *   injectedProp: SomeType;
- *   anotherInjectedProp: string;
+ *   api: Api;
  * }
  * 
  * // The component declaration.
- * export const Example = InjectGuarded(
+ * export const Example = InjectServices(
  *   {
- *     injectedProp: MyContext1,
- *     anotherInjectedProp: MyContext2,
+ *     api: ApiToken,
  *   },
  *   class Example extends React.Component<ExampleProps, {}> {
  *     constructor(props: ExampleProps) {
@@ -278,21 +2723,50 @@ export function Inject<CV extends { [KX in keyof P]?: React.Context<P[KX]> }, P
  * // Using the component in code.
  * function usageExample() {
  *   return (
- *     <Example 
- *       someProp="hello"
- *     />
+ *     <ContainerProvider container={container}>
+ *       <Example someProp="hello" />
+ *     </ContainerProvider>
  *   );
  * }
  */
-export function InjectGuarded<CV extends { [KX in keyof P]?: React.Context<P[KX] | undefined> }, P extends { [KK in keyof CV]: P[keyof CV] }>(
-  ContextMap: CV,
-  WrappedComponent: React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
-): React.ComponentType<OuterProps<CV, P> & React.ClassAttributes<React.Component<OuterProps<CV, P>>>> {
-  // TODO: I don't think there's anyway to avoid the use of "any" here, since we can't
-  // re-assign to "current" as we strip out each property iteratively.
-  let current: React.ComponentType<any> = WrappedComponent;
-  for (let cv in ContextMap) {
-    current = InjectSingleGuarded(ContextMap[cv], cv, current);
-  }
-  return current;
-}
\ No newline at end of file
+export function InjectServices<TM extends { [KX in keyof P]?: Token<P[KX]> }, P extends { [KK in keyof TM]: P[keyof TM] }, C>(
+  TokenMap: TM,
+  WrappedComponent: C & React.ComponentType<P & React.ClassAttributes<React.Component<P>>>
+): InjectedComponent<OuterProps<TM, P>, C> {
+  const Component = WrappedComponent as React.ComponentType<any>;
+  const propNames = Object.keys(TokenMap) as (keyof TM)[];
+
+  const Injected = React.forwardRef<any, any>((props: any, ref?: React.Ref<any>) => {
+    const overrides = React.useContext(InjectionOverridesContext);
+    const scope = React.useContext(ServiceScopeContext);
+    const resolved = React.useRef<{ scope: ServiceScope | undefined, services: { [name: string]: any } } | null>(null);
+    if (resolved.current === null || resolved.current.scope !== scope) {
+      resolved.current = { scope, services: {} };
+    }
+    // The overrides are read on every render, so they can change without a new scope. Overridden
+    // services are not resolved at all, so they don't need to be registered.
+    const overridden = applyInjectionOverrides(overrides, Injected, {});
+    const services = resolved.current.services;
+    for (let i = 0; i < propNames.length; i++) {
+      if (Object.prototype.hasOwnProperty.call(overridden, propNames[i]) ||
+        Object.prototype.hasOwnProperty.call(services, propNames[i])) {
+        continue;
+      }
+      if (scope === undefined) {
+        throw new Error(`${Injected.displayName} must be rendered inside a <ContainerProvider>.`);
+      }
+      services[propNames[i]] = scope.resolve(TokenMap[propNames[i]] as any as Token<any>);
+    }
+    const injected = objectAssign(objectAssign({}, services), overridden);
+    const traced = React.useRef<{ [key: string]: any } | null>(null);
+    if (injectionTracer !== undefined) {
+      traceInjectedRender(injectionTracer, Injected.displayName, propNames as string[], injected, traced, false);
+    }
+    const injectedProps = objectAssign(objectAssign({}, props), injected);
+    return (
+      <Component ref={ref} {...injectedProps} />
+    );
+  }) as React.ComponentType<any>;
+  return finalizeInjected(Injected, Component, "InjectServices", propNames.map((propName) =>
+    describeInjectedProp(propName, undefined, false)));
+}
@@ -0,0 +1,123 @@
+import * as React from "react";
+
+// This module holds the internals that are shared between the react-injectable entry
+// points (such as react-injectable/testing). It is not part of the public API.
+
+/**
+ * Describes a single property that is injected into a component.
+ */
+export interface InjectedPropMetadata {
+  propName: string;
+  /**
+   * The React context that the value is read from, or undefined if it doesn't come from a
+   * context (such as values from store sources or containers).
+   */
+  context: React.Context<any> | undefined;
+  /**
+   * The displayName of the context, or undefined if the context doesn't have one.
+   */
+  contextDisplayName: string | undefined;
+  /**
+   * The React contexts that the value is read from when the context's value is undefined, in
+   * order, or undefined if the property isn't injected from a chain of contexts.
+   */
+  fallbackContexts: React.Context<any>[] | undefined;
+  /**
+   * Whether the component is only rendered when the value is present.
+   */
+  guarded: boolean;
+}
+
+/**
+ * Describes how a component created by one of the injection functions injects its properties.
+ */
+export interface InjectionMetadata {
+  /**
+   * The name of the function that created the component, such as "Inject".
+   */
+  injector: string;
+  props: InjectedPropMetadata[];
+}
+
+// The static that injection metadata is stored under on injected components.
+export const INJECTION_METADATA = "__injectionMetadata";
+
+// Returns the injection metadata of a component, or undefined if it wasn't created by
+// one of the injection functions.
+export function readInjectionMetadata(Component: any): InjectionMetadata | undefined {
+  if (Component === null || Component === undefined || !Object.prototype.hasOwnProperty.call(Component, INJECTION_METADATA)) {
+    return undefined;
+  }
+  return Component[INJECTION_METADATA];
+}
+
+/**
+ * Values that replace the injected values of a specific injected component.
+ */
+export interface ComponentInjectionOverride {
+  component: any;
+  values: { [propName: string]: any };
+}
+
+/**
+ * A value that replaces the value of a context for every injected component that reads it.
+ */
+export interface ContextInjectionOverride {
+  context: React.Context<any>;
+  value: any;
+}
+
+export type InjectionOverride = ComponentInjectionOverride | ContextInjectionOverride;
+
+// The overrides that apply to the injected components underneath the provider. Every injected
+// component reads this, so the default value is shared to avoid allocating on each render.
+export const InjectionOverridesContext = React.createContext<InjectionOverride[]>([]);
+
+// Replaces the values with any overrides that target the injected component. This mutates
+// and returns the values object.
+export function applyInjectionOverrides(
+  overrides: InjectionOverride[],
+  component: any,
+  values: { [propName: string]: any }
+): { [propName: string]: any } {
+  for (let i = 0; i < overrides.length; i++) {
+    const override = overrides[i];
+    if ("component" in override && override.component === component) {
+      for (let propName in override.values) {
+        if (Object.prototype.hasOwnProperty.call(override.values, propName)) {
+          values[propName] = override.values[propName];
+        }
+      }
+    }
+  }
+  return values;
+}
+
+// Returns true if one of the overrides replaces the value of the context.
+export function hasContextOverride(overrides: InjectionOverride[], Context: React.Context<any>): boolean {
+  for (let i = 0; i < overrides.length; i++) {
+    const override = overrides[i];
+    if ("context" in override && override.context === Context) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Returns the value of the last override that replaces the value of the context, or the value
+// read from the context if there isn't one.
+export function readContextOverride(overrides: InjectionOverride[], Context: React.Context<any>, value: any): any {
+  for (let i = 0; i < overrides.length; i++) {
+    const override = overrides[i];
+    if ("context" in override && override.context === Context) {
+      value = override.value;
+    }
+  }
+  return value;
+}
+
+// The option that the Inject transformer (react-injectable/transformer) adds to calls whose
+// wrapped component is a function component that is safe to call directly. The
+// transformer can't import this module (it runs in node without React), so it declares the
+// same name.
+export const INLINE_WRAPPED_COMPONENT = "__inlineWrappedComponent";
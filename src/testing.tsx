@@ -0,0 +1,133 @@
+import * as React from "react";
+import * as TestRenderer from "react-test-renderer";
+import { InjectionOverridesContext, readInjectionMetadata } from "./internal";
+
+type Dissoc<O, D extends string> = Pick<O, Exclude<keyof O, D>>;
+
+/**
+ * The properties of the component wrapped by an injected component.
+ */
+export type WrappedPropsOf<C> = C extends { WrappedComponent: React.ComponentType<infer P> } ? P : never;
+
+/**
+ * The properties that an injected component injects into its wrapped component.
+ */
+export type InjectedPropsOf<C> = C extends React.ComponentType<infer OP> ? Dissoc<WrappedPropsOf<C>, keyof OP> : never;
+
+/**
+ * The properties that consumers of an injected component provide.
+ */
+export type OuterPropsOf<C> = C extends React.ComponentType<infer OP> ? Dissoc<OP, "ref" | "key"> : never;
+
+/**
+ * Options for `renderInjected`.
+ */
+export interface RenderInjectedOptions<C> {
+  /**
+   * The values to inject, in place of the values from contexts, selectors or containers.
+   */
+  injected?: Partial<InjectedPropsOf<C>>;
+  props: OuterPropsOf<C>;
+}
+
+/**
+ * The result of `renderInjected`.
+ */
+export interface RenderInjectedResult {
+  renderer: TestRenderer.ReactTestRenderer;
+  /**
+   * The names of the injected properties that the test did not supply a value for. These
+   * properties are injected from the real contexts, selectors or containers as normal.
+   */
+  unsuppliedProps: string[];
+}
+
+/**
+ * Render an injected component with react-test-renderer, supplying the injected values
+ * directly instead of wrapping the component in providers. The component still behaves as
+ * it would in an application (for example, guarded components do not render if a value
+ * is undefined).
+ *
+ * @param Component The component returned by one of the injection functions.
+ * @param Options The values to inject and the properties to render the component with.
+ * @returns The test renderer, along with the injected properties that were not supplied.
+ *
+ * @example
+ * // Import the renderInjected function.
+ * import { renderInjected } from "react-injectable/testing";
+ *
+ * it("renders the user name", () => {
+ *   const { renderer, unsuppliedProps } = renderInjected(Example, {
+ *     injected: { injectedProp: ... },
+ *     props: { someProp: "hello" },
+ *   });
+ *   expect(unsuppliedProps).toEqual([]);
+ *   expect(renderer.toJSON()).toMatchSnapshot();
+ * });
+ */
+export function renderInjected<C extends React.ComponentType<any>>(
+  Component: C,
+  Options: RenderInjectedOptions<C>
+): RenderInjectedResult {
+  const metadata = readInjectionMetadata(Component);
+  if (metadata === undefined) {
+    throw new Error(`${Component.displayName || (Component as any).name || "Component"} was not created by one of the react-injectable injection functions.`);
+  }
+  const injected: { [propName: string]: any } = Options.injected || {};
+  const unsuppliedProps: string[] = [];
+  for (let i = 0; i < metadata.props.length; i++) {
+    if (!Object.prototype.hasOwnProperty.call(injected, metadata.props[i].propName)) {
+      unsuppliedProps.push(metadata.props[i].propName);
+    }
+  }
+  const AnyComponent = Component as React.ComponentType<any>;
+  const renderer = TestRenderer.create(
+    <InjectionOverridesContext.Provider value={[{ component: Component, values: injected }]}>
+      <AnyComponent {...Options.props} />
+    </InjectionOverridesContext.Provider>
+  );
+  return {
+    renderer,
+    unsuppliedProps,
+  };
+}
+
+/**
+ * Options for `renderUnwrapped`.
+ */
+export interface RenderUnwrappedOptions<C> {
+  injected: InjectedPropsOf<C>;
+  props: OuterPropsOf<C>;
+}
+
+/**
+ * Render the component wrapped by an injected component directly with react-test-renderer,
+ * passing the injected values as ordinary properties. None of the injection behaviour
+ * (such as guards) applies.
+ *
+ * @param Component The component returned by one of the injection functions.
+ * @param Options The values to inject and the properties to render the component with.
+ * @returns The test renderer.
+ *
+ * @example
+ * // Import the renderUnwrapped function.
+ * import { renderUnwrapped } from "react-injectable/testing";
+ *
+ * it("renders the user name", () => {
+ *   const renderer = renderUnwrapped(Example, {
+ *     injected: { injectedProp: ..., anotherInjectedProp: "world" },
+ *     props: { someProp: "hello" },
+ *   });
+ *   expect(renderer.toJSON()).toMatchSnapshot();
+ * });
+ */
+export function renderUnwrapped<C extends React.ComponentType<any> & { WrappedComponent: React.ComponentType<any> }>(
+  Component: C,
+  Options: RenderUnwrappedOptions<C>
+): TestRenderer.ReactTestRenderer {
+  const WrappedComponent = Component.WrappedComponent;
+  const props = { ...(Options.props as object), ...(Options.injected as object) };
+  return TestRenderer.create(
+    <WrappedComponent {...props} />
+  );
+}
@@ -0,0 +1,283 @@
+import * as ts from "typescript";
+
+// This module holds the TypeScript transformer behind react-injectable/transformer, which removes
+// the extra component that Inject, InjectGuarded and InjectSingle would otherwise render for
+// function components declared in the same file. It runs at build time, so it only depends on
+// TypeScript.
+
+// The option that tells the runtime to call the wrapped component directly. This must match
+// INLINE_WRAPPED_COMPONENT in internal.tsx.
+const INLINE_WRAPPED_COMPONENT = "__inlineWrappedComponent";
+
+// The injection functions that the transformer rewrites, and whether each one is guarded.
+const INLINE_INJECTORS: { [name: string]: boolean } = {
+  Inject: false,
+  InjectGuarded: true,
+  InjectSingle: false,
+};
+
+/**
+ * Options for `createInjectTransformer`.
+ */
+export interface InjectTransformerOptions {
+  /**
+   * The module specifiers that react-injectable is imported from. Defaults to
+   * `["react-injectable"]`.
+   */
+  moduleNames?: string[];
+}
+
+// The names that the injection functions are imported under in a source file.
+interface InjectorBindings {
+  // Maps the local name of each named import to the injection function it refers to.
+  named: { [localName: string]: string };
+  namespaces: string[];
+}
+
+/**
+ * Create a TypeScript transformer that inlines the components wrapped by `Inject`,
+ * `InjectGuarded` and `InjectSingle`, so that each usage renders a single component instead
+ * of the injected component and the component it wraps.
+ *
+ * A call is only transformed when its context map (or property name) is statically known and
+ * its wrapped component is a function component that the injected component can call directly
+ * after reading the contexts with hooks: an inline arrow function or function expression, or
+ * the name of a function declaration or `const` function declared at the top level of the same
+ * file (and not declared anywhere else in it). Everything else about the injected component
+ * (overrides, guards, metadata, tracing and ref forwarding) behaves exactly as it does without
+ * the transformer. Calls with options, calls that wrap a class or a component from another
+ * file, and guarded components that call hooks are left unchanged.
+ *
+ * Hooks are recognised by name (`useSomething` or `React.useSomething`), as in the rules of
+ * hooks. A guarded component that calls hooks through a helper whose name doesn't start with
+ * `use` is not detected, so it would be inlined and call a different number of hooks while a
+ * value is missing; give such helpers a `use` name.
+ *
+ * @param Options Optional settings, such as the module specifiers react-injectable is imported from.
+ * @returns The transformer, which should run before the TypeScript transforms.
+ *
+ * @example
+ * // rollup.config.js, with rollup-plugin-typescript2.
+ * import { createInjectTransformer } from "react-injectable/transformer";
+ *
+ * typescript({
+ *   transformers: [() => ({ before: [createInjectTransformer()], after: [] })],
+ * });
+ *
+ * // jest.config.js, with ts-jest.
+ * globals: {
+ *   "ts-jest": {
+ *     astTransformers: ["react-injectable/transformer"],
+ *   },
+ * },
+ */
+export function createInjectTransformer(Options?: InjectTransformerOptions): ts.TransformerFactory<ts.SourceFile> {
+  const moduleNames = Options !== undefined && Options.moduleNames !== undefined ? Options.moduleNames : ["react-injectable"];
+  return (context) => (sourceFile) => {
+    const bindings = findInjectorBindings(sourceFile, moduleNames);
+    if (Object.keys(bindings.named).length === 0 && bindings.namespaces.length === 0) {
+      return sourceFile;
+    }
+    const components = findNamedComponents(sourceFile);
+    const visit = (node: ts.Node): ts.Node => {
+      const visited = ts.visitEachChild(node, visit, context);
+      if (ts.isCallExpression(visited)) {
+        const injector = resolveInjector(bindings, visited.expression);
+        if (injector !== undefined && canInline(injector, visited.arguments, components)) {
+          return ts.updateCall(visited, visited.expression, visited.typeArguments, [
+            ...visited.arguments,
+            ts.createObjectLiteral([
+              ts.createPropertyAssignment(ts.createStringLiteral(INLINE_WRAPPED_COMPONENT), ts.createTrue()),
+            ]),
+          ]);
+        }
+      }
+      return visited;
+    };
+    return ts.visitNode(sourceFile, visit);
+  };
+}
+
+// The name and version that ts-jest uses to cache transformed files, which must change whenever
+// the output of the transformer does.
+export const name = "react-injectable-transformer";
+export const version = "2";
+
+// The entry point for ts-jest's astTransformers option. Since ts-jest doesn't pass options to
+// transformers, they are read from the "react-injectable/transformer" jest global instead.
+export function factory(configSet: { jest: { globals?: { [key: string]: any } } }): ts.TransformerFactory<ts.SourceFile> {
+  const globals = configSet.jest.globals || {};
+  return createInjectTransformer(globals["react-injectable/transformer"]);
+}
+
+// Returns the local names of the injection functions that the source file imports.
+function findInjectorBindings(sourceFile: ts.SourceFile, moduleNames: string[]): InjectorBindings {
+  const bindings: InjectorBindings = { named: {}, namespaces: [] };
+  for (let i = 0; i < sourceFile.statements.length; i++) {
+    const statement = sourceFile.statements[i];
+    if (!ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      moduleNames.indexOf(statement.moduleSpecifier.text) === -1 ||
+      statement.importClause === undefined ||
+      statement.importClause.namedBindings === undefined) {
+      continue;
+    }
+    const namedBindings = statement.importClause.namedBindings;
+    if (ts.isNamespaceImport(namedBindings)) {
+      bindings.namespaces.push(namedBindings.name.text);
+      continue;
+    }
+    for (let j = 0; j < namedBindings.elements.length; j++) {
+      const imported = (namedBindings.elements[j].propertyName || namedBindings.elements[j].name).text;
+      if (Object.prototype.hasOwnProperty.call(INLINE_INJECTORS, imported)) {
+        bindings.named[namedBindings.elements[j].name.text] = imported;
+      }
+    }
+  }
+  return bindings;
+}
+
+// Returns the injection function that the callee refers to, or undefined if it isn't one of the
+// injection functions the transformer rewrites.
+function resolveInjector(bindings: InjectorBindings, callee: ts.Expression): string | undefined {
+  if (ts.isIdentifier(callee) && Object.prototype.hasOwnProperty.call(bindings.named, callee.text)) {
+    return bindings.named[callee.text];
+  }
+  if (ts.isPropertyAccessExpression(callee) &&
+    ts.isIdentifier(callee.expression) &&
+    bindings.namespaces.indexOf(callee.expression.text) !== -1 &&
+    Object.prototype.hasOwnProperty.call(INLINE_INJECTORS, callee.name.text)) {
+    return callee.name.text;
+  }
+  return undefined;
+}
+
+// The function components declared at the top level of a file, keyed by their names.
+type NamedComponents = { [name: string]: ts.FunctionDeclaration | ts.ArrowFunction | ts.FunctionExpression };
+
+// Returns the function declarations and const functions at the top level of the source file whose
+// names aren't declared (or assigned to) anywhere else in it, so that every reference to the name
+// refers to that function. Without a type checker, this is how we rule out shadowing.
+function findNamedComponents(sourceFile: ts.SourceFile): NamedComponents {
+  const counts: { [name: string]: number } = {};
+  const count = (node: ts.Node) => {
+    const name = (node as ts.NamedDeclaration).name;
+    if ((ts.isVariableDeclaration(node) || ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) ||
+      ts.isClassLike(node) || ts.isParameter(node) || ts.isBindingElement(node) || ts.isImportSpecifier(node) ||
+      ts.isImportClause(node) || ts.isNamespaceImport(node) || ts.isImportEqualsDeclaration(node) ||
+      ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)) &&
+      name !== undefined && ts.isIdentifier(name)) {
+      counts[name.text] = (counts[name.text] || 0) + 1;
+    }
+    if (ts.isBinaryExpression(node) && ts.isIdentifier(node.left) &&
+      node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment && node.operatorToken.kind <= ts.SyntaxKind.LastAssignment) {
+      counts[node.left.text] = (counts[node.left.text] || 0) + 1;
+    }
+    ts.forEachChild(node, count);
+  };
+  ts.forEachChild(sourceFile, count);
+
+  const components: NamedComponents = {};
+  for (let i = 0; i < sourceFile.statements.length; i++) {
+    const statement = sourceFile.statements[i];
+    if (ts.isFunctionDeclaration(statement) && statement.name !== undefined && statement.body !== undefined) {
+      components[statement.name.text] = statement;
+    } else if (ts.isVariableStatement(statement) && (statement.declarationList.flags & ts.NodeFlags.Const) !== 0) {
+      for (let j = 0; j < statement.declarationList.declarations.length; j++) {
+        const declaration = statement.declarationList.declarations[j];
+        let initializer = declaration.initializer;
+        while (initializer !== undefined && ts.isParenthesizedExpression(initializer)) {
+          initializer = initializer.expression;
+        }
+        if (ts.isIdentifier(declaration.name) && initializer !== undefined &&
+          (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+          components[declaration.name.text] = initializer;
+        }
+      }
+    }
+  }
+  for (let name in components) {
+    if (counts[name] !== 1) {
+      delete components[name];
+    }
+  }
+  return components;
+}
+
+// Returns true if the call can be rewritten to call its wrapped component directly.
+function canInline(injector: string, args: ts.NodeArray<ts.Expression>, components: NamedComponents): boolean {
+  let component: ts.Expression;
+  if (injector === "InjectSingle") {
+    if (args.length !== 3 || !ts.isStringLiteral(args[1])) {
+      return false;
+    }
+    component = args[2];
+  } else {
+    if (args.length !== 2 || !isStaticContextMap(args[0])) {
+      return false;
+    }
+    component = args[1];
+  }
+  while (ts.isParenthesizedExpression(component)) {
+    component = component.expression;
+  }
+  const declaration = ts.isIdentifier(component) ?
+    (Object.prototype.hasOwnProperty.call(components, component.text) ? components[component.text] : undefined) :
+    component;
+  if (declaration === undefined || !isInlineFunctionComponent(declaration)) {
+    return false;
+  }
+  // A guarded component isn't called while a value is missing, so any hooks it calls would
+  // change the number of hooks the injected component calls between renders.
+  return !INLINE_INJECTORS[injector] || !callsHooks(declaration.body!);
+}
+
+// Returns true if the context map is an object literal whose property names are all known.
+function isStaticContextMap(expression: ts.Expression): boolean {
+  if (!ts.isObjectLiteralExpression(expression)) {
+    return false;
+  }
+  return expression.properties.every((property) =>
+    (ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) ||
+    ts.isShorthandPropertyAssignment(property));
+}
+
+// Returns true if the expression is a function component that behaves the same when it is called
+// directly as when React calls it: it only takes the props, and doesn't read this or arguments
+// (where React would pass the legacy context or ref).
+function isInlineFunctionComponent(expression: ts.Node): expression is ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration {
+  if (!ts.isArrowFunction(expression) && !ts.isFunctionExpression(expression) && !ts.isFunctionDeclaration(expression)) {
+    return false;
+  }
+  if (expression.asteriskToken !== undefined ||
+    (expression.modifiers !== undefined && expression.modifiers.some((modifier) => modifier.kind === ts.SyntaxKind.AsyncKeyword))) {
+    return false;
+  }
+  if (expression.parameters.length > 1 ||
+    (expression.parameters.length === 1 && expression.parameters[0].dotDotDotToken !== undefined)) {
+    return false;
+  }
+  return ts.isArrowFunction(expression) || !readsThisOrArguments(expression.body!);
+}
+
+// Returns true if the node reads this or arguments, including from nested arrow functions.
+function readsThisOrArguments(node: ts.Node): boolean {
+  if (node.kind === ts.SyntaxKind.ThisKeyword || (ts.isIdentifier(node) && node.text === "arguments")) {
+    return true;
+  }
+  if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isClassLike(node)) {
+    return false;
+  }
+  return ts.forEachChild(node, readsThisOrArguments) === true;
+}
+
+// Returns true if the node calls anything named like a hook (useSomething or React.useSomething).
+function callsHooks(node: ts.Node): boolean {
+  if (ts.isCallExpression(node)) {
+    const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+    if (ts.isIdentifier(callee) && /^use[A-Z0-9]/.test(callee.text)) {
+      return true;
+    }
+  }
+  return ts.forEachChild(node, callsHooks) === true;
+}